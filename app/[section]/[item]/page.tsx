@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import TVPortfolio from "../../../components/TVPortfolio";
+import { loadSections } from "../../../lib/content/load";
+import { redirectFor } from "../../../lib/content/redirects";
+import { itemMetadata, itemParams } from "../../../lib/metadata";
+import { channelState } from "../../../lib/routes";
+
+type Params = Promise<{ section: string; item: string }>;
+
+export const generateStaticParams = itemParams;
+
+export async function generateMetadata({ params }: { params: Params }): Promise<Metadata> {
+  const { section, item } = await params;
+  return itemMetadata(section, item);
+}
+
+export default async function ChannelPage({ params }: { params: Params }) {
+  const { section, item } = await params;
+  const sections = await loadSections();
+  const initial = channelState(sections, section, item);
+  if (!initial) {
+    const moved = await redirectFor(section, item);
+    if (moved) permanentRedirect(moved);
+    notFound();
+  }
+  return <TVPortfolio sections={sections} initial={initial} />;
+}
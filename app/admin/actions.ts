@@ -0,0 +1,60 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
+import { hasPassword } from "../../lib/basicAuth";
+import { ContentError } from "../../lib/content/schema";
+import { importResume, saveDraft, saveUpload, type ImportSummary } from "../../lib/content/store";
+
+export type ActionResult<T = object> = ({ ok: true } & T) | { ok: false; issues: string[] };
+
+// middleware.ts only guards page requests; an action can be posted to any route.
+async function authorize() {
+  if (!hasPassword((await headers()).get("authorization"), process.env.ADMIN_PASSWORD)) throw new Error("Not authorized");
+}
+
+async function attempt<T extends object>(run: () => Promise<T>): Promise<ActionResult<T>> {
+  await authorize();
+  try {
+    return { ok: true, ...(await run()) };
+  } catch (e) {
+    if (e instanceof ContentError) return { ok: false, issues: e.issues };
+    throw e;
+  }
+}
+
+/** Writes the editor's draft to content/ and re-renders every page from it. */
+export async function saveContent(draft: unknown): Promise<ActionResult> {
+  const result = await attempt(async () => {
+    await saveDraft(draft);
+    return {};
+  });
+  if (result.ok) revalidatePath("/", "layout");
+  return result;
+}
+
+/** Puts an image from the form's `file` field into public/uploads. */
+export async function uploadImage(form: FormData): Promise<ActionResult<{ src: string }>> {
+  return attempt(async () => {
+    const file = form.get("file");
+    if (!(file instanceof File)) throw new ContentError(["no file uploaded"]);
+    return { src: await saveUpload(file) };
+  });
+}
+
+/** Lays the JSON Resume document in the form's `file` field over content/ (lib/content/store.ts). */
+export async function importResumeFile(form: FormData): Promise<ActionResult<ImportSummary>> {
+  const result = await attempt(async () => {
+    const file = form.get("file");
+    if (!(file instanceof File)) throw new ContentError(["no file uploaded"]);
+    let doc: unknown;
+    try {
+      doc = JSON.parse(await file.text());
+    } catch (e) {
+      throw new ContentError([`${file.name}: ${(e as Error).message}`]);
+    }
+    return importResume(doc);
+  });
+  if (result.ok) revalidatePath("/", "layout");
+  return result;
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import AdminEditor from "../../components/AdminEditor";
+import { loadSections } from "../../lib/content/load";
+
+export const metadata: Metadata = {
+  title: "Admin",
+  robots: { index: false },
+};
+
+// Always shows what is on disk now; middleware.ts guards the route.
+export const dynamic = "force-dynamic";
+
+export default async function AdminPage() {
+  const sections = await loadSections();
+  return <AdminEditor sections={sections} />;
+}
@@ -0,0 +1,70 @@
+import { normalizeCode, parseRemoteCommand } from "../../../../lib/remote/protocol";
+import { connect, endSession, hasSession, relay, type Send } from "../../../../lib/remote/sessions";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ code: string }> };
+
+// Comment lines keep idle proxies from closing the stream.
+const HEARTBEAT_MS = 20_000;
+
+const notFound = () => Response.json({ error: "No such pairing code" }, { status: 404 });
+
+/** The event stream for either end of a session (the TV passes ?token=). */
+export async function GET(request: Request, { params }: Params) {
+  const code = normalizeCode((await params).code);
+  const token = new URL(request.url).searchParams.get("token");
+  if (!hasSession(code)) return notFound();
+
+  const encoder = new TextEncoder();
+  let detach: (() => void) | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  const close = () => {
+    clearInterval(heartbeat);
+    detach?.();
+    detach = null;
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close(); // the client went away between abort and cleanup
+        }
+      };
+      const send: Send = (event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      detach = connect(code, token, send);
+      if (!detach) {
+        send("ended", null);
+        controller.close();
+        return;
+      }
+      heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+      request.signal.addEventListener("abort", close);
+    },
+    cancel: close,
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-store", Connection: "keep-alive" },
+  });
+}
+
+/** A button press from the phone. */
+export async function POST(request: Request, { params }: Params) {
+  const code = normalizeCode((await params).code);
+  if (!hasSession(code)) return notFound();
+  const cmd = parseRemoteCommand(await request.json().catch(() => null));
+  if (!cmd) return Response.json({ error: "Not a remote command" }, { status: 400 });
+  if (!relay(code, cmd)) return Response.json({ error: "The TV is not connected" }, { status: 409 });
+  return new Response(null, { status: 204 });
+}
+
+/** The TV closing its session. */
+export async function DELETE(request: Request, { params }: Params) {
+  const code = normalizeCode((await params).code);
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+  return endSession(code, token) ? new Response(null, { status: 204 }) : notFound();
+}
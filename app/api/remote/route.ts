@@ -0,0 +1,10 @@
+import { createSession } from "../../../lib/remote/sessions";
+
+export const dynamic = "force-dynamic";
+
+/** Opens a pairing session for a TV page; see lib/remote/protocol.ts. */
+export function POST() {
+  const pairing = createSession();
+  if (!pairing) return Response.json({ error: "Too many pairing sessions open" }, { status: 503, headers: { "Retry-After": "60" } });
+  return Response.json(pairing, { headers: { "Cache-Control": "no-store" } });
+}
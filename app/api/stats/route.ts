@@ -0,0 +1,51 @@
+import { forKnownItems, parseBatch } from "../../../lib/analytics/events";
+import { recordEvents } from "../../../lib/analytics/store";
+import { loadSections } from "../../../lib/content/load";
+
+export const dynamic = "force-dynamic";
+
+// A full batch is a few KB; anything much bigger isn't from our client.
+const MAX_BODY = 16_384;
+
+/** The body as text, or null once it passes `max` bytes (without reading the rest). */
+async function readCapped(request: Request, max: number): Promise<string | null> {
+  if (Number(request.headers.get("content-length") ?? 0) > max) return null;
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > max) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Event batches from the TV page (sendBeacon, so the body is text/plain
+ * JSON). Only the events themselves are read: no IP, cookies or user agent.
+ */
+export async function POST(request: Request) {
+  if (request.headers.get("dnt") === "1" || request.headers.get("sec-gpc") === "1") return new Response(null, { status: 204 });
+  const body = await readCapped(request, MAX_BODY);
+  if (body === null) return new Response(null, { status: 413 });
+  let raw: unknown;
+  try {
+    raw = JSON.parse(body);
+  } catch {
+    return new Response(null, { status: 400 });
+  }
+  let events = parseBatch(raw);
+  if (!events.length) return new Response(null, { status: 204 });
+  // Read per batch, so items added in /admin count straight away.
+  const known = new Set((await loadSections()).flatMap((s) => s.items.map((i) => `${s.key}/${i.id}`)));
+  events = forKnownItems(events, known);
+  if (events.length) await recordEvents(events);
+  return new Response(null, { status: 204 });
+}
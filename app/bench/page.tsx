@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import Benchmark from "../../components/Benchmark";
+
+export const metadata: Metadata = {
+  title: "Benchmark",
+  robots: { index: false },
+};
+
+// Static: the synthetic catalog is made in the browser.
+export default function BenchPage() {
+  return <Benchmark />;
+}
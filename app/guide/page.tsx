@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+import TVPortfolio from "../../components/TVPortfolio";
+import { loadSections } from "../../lib/content/load";
+import { guideState } from "../../lib/routes";
+
+export const metadata: Metadata = {
+  title: "Guide",
+  description: "Program guide: experience and projects laid out on a timeline.",
+};
+
+export default async function GuidePage() {
+  const sections = await loadSections();
+  return <TVPortfolio sections={sections} initial={guideState(sections)} />;
+}
@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+import { SITE_DESCRIPTION, SITE_NAME } from "../lib/site";
+
+/** Installs as a full-screen, landscape app; served at /manifest.webmanifest. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: SITE_NAME,
+    short_name: SITE_NAME,
+    description: SITE_DESCRIPTION,
+    start_url: "/",
+    scope: "/",
+    display: "fullscreen",
+    display_override: ["fullscreen", "standalone"],
+    orientation: "landscape",
+    background_color: "#0a0a0a",
+    theme_color: "#0a0a0a",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/icon-maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import NoSignal from "../../components/NoSignal";
+import TvBezel from "../../components/TvBezel";
+
+export const metadata: Metadata = {
+  title: "Offline",
+  robots: { index: false },
+};
+
+/** What the service worker shows for a page it hasn't saved while offline. */
+export default function OfflinePage() {
+  return (
+    <main className="min-h-screen w-full bg-tv-page text-tv-page-ink py-10 flex justify-center">
+      <TvBezel>
+        <NoSignal />
+      </TvBezel>
+    </main>
+  );
+}
@@ -1,5 +1,7 @@
 import TVPortfolio from "../components/TVPortfolio";
+import { loadSections } from "../lib/content/load";
 
-export default function Page() {
-  return <TVPortfolio />;
+export default async function Page() {
+  const sections = await loadSections();
+  return <TVPortfolio sections={sections} />;
 }
@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+import PhoneRemote from "../../components/PhoneRemote";
+
+export const metadata: Metadata = {
+  title: "Remote",
+  description: "Use your phone as the remote for a TV page.",
+  robots: { index: false },
+};
+
+// Static: the pairing code and language are read from the URL in the browser.
+export default function RemotePage() {
+  return <PhoneRemote />;
+}
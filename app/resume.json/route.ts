@@ -0,0 +1,14 @@
+import { loadSections } from "../../lib/content/load";
+import { toJsonResume } from "../../lib/resume/jsonResume";
+import { OWNER_NAME } from "../../lib/site";
+
+// Built once per build, like the pages it describes.
+export const dynamic = "force-static";
+
+/** The content as a JSON Resume document (lib/resume/jsonResume.ts); the admin editor imports it back. */
+export async function GET() {
+  const resume = toJsonResume(await loadSections(), OWNER_NAME);
+  return new Response(`${JSON.stringify(resume, null, 2)}\n`, {
+    headers: { "Content-Type": "application/json; charset=utf-8", "Content-Disposition": 'inline; filename="resume.json"' },
+  });
+}
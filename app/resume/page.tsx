@@ -0,0 +1,104 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import ReactMarkdown from "react-markdown";
+import PrintButton from "../../components/PrintButton";
+import { loadSections } from "../../lib/content/load";
+import { RESUME_SECTIONS } from "../../lib/resume/jsonResume";
+import { OWNER_NAME } from "../../lib/site";
+import type { Item } from "../../lib/types";
+import "./resume.css";
+
+export const metadata: Metadata = {
+  title: "Résumé",
+  description: `${OWNER_NAME}'s experience, projects and interests on one printable page.`,
+};
+
+const month = (d: string) => {
+  const [y, m] = d.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1)).toLocaleDateString("en", { month: "short", year: "numeric", timeZone: "UTC" });
+};
+
+const dates = (item: Item) => item.start && `${month(item.start)} – ${item.end ? month(item.end) : "Present"}`;
+
+const LINK = "underline decoration-neutral-300 underline-offset-2 hover:decoration-neutral-900";
+
+function Links({ item }: { item: Item }) {
+  if (!item.links.length) return null;
+  return (
+    <ul className="flex flex-wrap gap-x-3 text-sm text-neutral-600">
+      {item.links.map((l) => (
+        <li key={l.url}>
+          <a href={l.url} className={LINK}>
+            {l.label ?? l.type}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function Entry({ item }: { item: Item }) {
+  return (
+    <article className="resume-entry space-y-1">
+      <div className="flex flex-wrap items-baseline justify-between gap-x-4">
+        <h3 className="font-semibold">{item.title}</h3>
+        {item.start && <span className="text-sm tabular-nums text-neutral-600">{dates(item)}</span>}
+      </div>
+      {item.subtitle && <p className="text-sm italic text-neutral-700">{item.subtitle}</p>}
+      {item.description && <p className="leading-relaxed">{item.description}</p>}
+      {item.body && (
+        <div className="space-y-1 leading-relaxed [&_ul]:list-disc [&_ul]:ps-5">
+          <ReactMarkdown>{item.body}</ReactMarkdown>
+        </div>
+      )}
+      {item.tags.length > 0 && <p className="text-sm text-neutral-600">{item.tags.join(" · ")}</p>}
+      <Links item={item} />
+    </article>
+  );
+}
+
+/**
+ * The TV's content as a plain, printable résumé: the first About item is the
+ * header, every section follows in TV order. Same data as the channels, for
+ * anyone who'd rather read (or print) than watch. JSON Resume at /resume.json.
+ */
+export default async function ResumePage() {
+  const sections = await loadSections();
+  const about = sections.find((s) => s.key === RESUME_SECTIONS.basics.key);
+  const intro = about?.items[0];
+  const rest = sections.map((s) => (s === about ? { ...s, items: s.items.slice(1) } : s)).filter((s) => s.items.length);
+
+  return (
+    <main className="resume min-h-screen bg-white px-6 py-10 text-neutral-900">
+      <div className="mx-auto max-w-3xl space-y-8">
+        <nav className="resume-toolbar flex flex-wrap items-center justify-between gap-3 text-sm">
+          <Link href="/" className={LINK}>
+            ← Back to the TV
+          </Link>
+          <div className="flex items-center gap-3">
+            <a href="/resume.json" className={LINK}>
+              JSON Resume
+            </a>
+            <PrintButton className="rounded-lg px-3 py-1 ring-1 ring-neutral-300 hover:bg-neutral-100" />
+          </div>
+        </nav>
+
+        <header className="space-y-2 border-b border-neutral-200 pb-6">
+          <h1 className="text-3xl font-bold">{OWNER_NAME}</h1>
+          {intro?.subtitle && <p className="text-lg text-neutral-700">{intro.subtitle}</p>}
+          {intro?.description && <p className="leading-relaxed">{intro.description}</p>}
+          {intro && <Links item={intro} />}
+        </header>
+
+        {rest.map((section) => (
+          <section key={section.key} className="space-y-4">
+            <h2 className="border-b border-neutral-200 pb-1 text-sm font-semibold uppercase tracking-wider text-neutral-600">{section.label}</h2>
+            {section.items.map((item) => (
+              <Entry key={item.id} item={item} />
+            ))}
+          </section>
+        ))}
+      </div>
+    </main>
+  );
+}
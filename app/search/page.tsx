@@ -0,0 +1,25 @@
+import type { Metadata } from "next";
+import TVPortfolio from "../../components/TVPortfolio";
+import { loadSections } from "../../lib/content/load";
+import { searchState } from "../../lib/routes";
+
+type SearchParams = Promise<{ q?: string | string[] }>;
+
+const queryOf = async (searchParams: SearchParams) => {
+  const { q } = await searchParams;
+  return (Array.isArray(q) ? q[0] : q) ?? "";
+};
+
+export async function generateMetadata({ searchParams }: { searchParams: SearchParams }): Promise<Metadata> {
+  const q = await queryOf(searchParams);
+  return {
+    title: q ? `Search: ${q}` : "Search",
+    description: "Search every channel by title, tag or description.",
+    robots: { index: false },
+  };
+}
+
+export default async function SearchPage({ searchParams }: { searchParams: SearchParams }) {
+  const sections = await loadSections();
+  return <TVPortfolio sections={sections} initial={searchState(await queryOf(searchParams))} />;
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from "next";
+import TVPortfolio from "../../components/TVPortfolio";
+import { loadSections } from "../../lib/content/load";
+import { SETTINGS_STATE } from "../../lib/routes";
+
+export const metadata: Metadata = {
+  title: "Settings",
+  description: "Choose a TV style and key bindings.",
+  robots: { index: false },
+};
+
+export default async function SettingsPage() {
+  const sections = await loadSections();
+  return <TVPortfolio sections={sections} initial={SETTINGS_STATE} />;
+}
@@ -0,0 +1,173 @@
+import type { Metadata } from "next";
+import { NAV_SOURCES, SCREENS, STAGES, type Stage } from "../../lib/analytics/events";
+import { readStats } from "../../lib/analytics/store";
+import { loadSections } from "../../lib/content/load";
+
+export const metadata: Metadata = {
+  title: "Stats",
+  robots: { index: false },
+};
+
+// Reads the live totals on every request; middleware.ts guards the route.
+export const dynamic = "force-dynamic";
+
+const STAGE_LABELS: Record<Stage, string> = {
+  visit: "Visited",
+  channel: "Watched a channel",
+  detail: "Opened details",
+  link: "Followed a link",
+};
+
+const pct = (n: number, of: number) => (of ? `${Math.round((n / of) * 100)}%` : "–");
+const seconds = (ms: number) => (ms >= 60_000 ? `${(ms / 60_000).toFixed(1)} min` : `${Math.round(ms / 1000)} s`);
+
+function Bar({ value, max }: { value: number; max: number }) {
+  return (
+    <div className="h-2 w-full rounded bg-tv-page-ink/10">
+      <div className="h-2 rounded bg-tv-focus" style={{ width: max ? `${(value / max) * 100}%` : 0 }} />
+    </div>
+  );
+}
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-2xl bg-tv-page-ink/5 p-5 ring-1 ring-tv-page-ink/10">
+      <h2 className="mb-3 font-semibold">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+/** Totals from lib/analytics/store.ts: per-item views, the visit funnel, inputs and paths. */
+export default async function StatsPage() {
+  const [stats, sections] = await Promise.all([readStats(), loadSections()]);
+  const visits = stats.funnel.visit;
+
+  const titles = new Map(sections.flatMap((s) => s.items.map((i) => [`${s.key}/${i.id}`, { channel: i.channel, title: i.title, section: s.label }])));
+  const items = Object.entries(stats.items).sort(([, a], [, b]) => b.opens - a.opens);
+  const maxOpens = Math.max(0, ...items.map(([, s]) => s.opens));
+  const paths = Object.entries(stats.paths)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10);
+  const days = Object.entries(stats.days).sort(([a], [b]) => a.localeCompare(b)).slice(-14);
+  const maxDay = Math.max(0, ...days.map(([, n]) => n));
+  const opens = NAV_SOURCES.reduce((sum, s) => sum + stats.sources[s], 0);
+  const exits = SCREENS.reduce((sum, s) => sum + stats.exits[s], 0);
+
+  return (
+    <main className="min-h-screen bg-tv-page text-tv-page-ink px-6 py-10">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <header>
+          <h1 className="text-2xl font-bold">Viewing stats</h1>
+          <p className="text-sm text-tv-page-ink/70">
+            {stats.since ? `${visits} visit${visits === 1 ? "" : "s"} since ${stats.since}.` : "Nothing recorded yet."} Visitors with Do Not Track or Global Privacy Control on are not counted.
+          </p>
+        </header>
+
+        <Panel title="Funnel">
+          <div className="space-y-2 text-sm">
+            {STAGES.map((stage) => (
+              <div key={stage} className="grid grid-cols-[10rem_1fr_5rem_3rem] items-center gap-3">
+                <div>{STAGE_LABELS[stage]}</div>
+                <Bar value={stats.funnel[stage]} max={visits} />
+                <div className="text-end tabular-nums">{stats.funnel[stage]}</div>
+                <div className="text-end tabular-nums text-tv-page-ink/60">{pct(stats.funnel[stage], visits)}</div>
+              </div>
+            ))}
+          </div>
+        </Panel>
+
+        <Panel title="Channels">
+          {items.length ? (
+            <table className="w-full text-sm">
+              <thead className="text-tv-page-ink/60">
+                <tr>
+                  <th className="py-1 text-start font-normal">Channel</th>
+                  <th className="py-1 text-start font-normal">Views</th>
+                  <th className="py-1 text-end font-normal">Avg. watch</th>
+                  <th className="py-1 text-end font-normal" title="Visits that ended on this channel, per view">Drop-off</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(([key, s]) => {
+                  const info = titles.get(key);
+                  return (
+                    <tr key={key} className="border-t border-tv-page-ink/10">
+                      <td className="py-2 pe-3">
+                        {info ? (
+                          <>
+                            <span className="font-mono tabular-nums text-tv-page-ink/60">{info.channel}</span> {info.title}
+                            <span className="text-tv-page-ink/60"> · {info.section}</span>
+                          </>
+                        ) : (
+                          <span className="text-tv-page-ink/60">{key} (removed)</span>
+                        )}
+                      </td>
+                      <td className="w-1/3 py-2 pe-3">
+                        <div className="flex items-center gap-2">
+                          <Bar value={s.opens} max={maxOpens} />
+                          <span className="w-10 text-end tabular-nums">{s.opens}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 text-end tabular-nums">{s.dwells ? seconds(s.dwellMs / s.dwells) : "–"}</td>
+                      <td className="py-2 text-end tabular-nums">{pct(s.exits, s.opens)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-tv-page-ink/60">No channel views yet.</p>
+          )}
+        </Panel>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Panel title="How channels were opened">
+            <ul className="space-y-1 text-sm">
+              {NAV_SOURCES.filter((s) => stats.sources[s]).map((s) => (
+                <li key={s} className="flex justify-between">
+                  <span className="capitalize">{s === "link" ? "Link / bookmark" : s}</span>
+                  <span className="tabular-nums">
+                    {stats.sources[s]} <span className="text-tv-page-ink/60">({pct(stats.sources[s], opens)})</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Panel>
+
+          <Panel title="Where visits ended">
+            <ul className="space-y-1 text-sm">
+              {SCREENS.filter((s) => stats.exits[s]).map((s) => (
+                <li key={s} className="flex justify-between">
+                  <span className="capitalize">{s}</span>
+                  <span className="tabular-nums">
+                    {stats.exits[s]} <span className="text-tv-page-ink/60">({pct(stats.exits[s], exits)})</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Panel>
+
+          <Panel title="Top paths">
+            <ul className="space-y-1 text-sm">
+              {paths.map(([path, n]) => (
+                <li key={path} className="flex justify-between">
+                  <span className="capitalize">{path.replace(">", " → ")}</span>
+                  <span className="tabular-nums">{n}</span>
+                </li>
+              ))}
+            </ul>
+          </Panel>
+
+          <Panel title="Visits, last 14 days">
+            <div className="flex h-24 items-end gap-1" role="img" aria-label={days.map(([d, n]) => `${d}: ${n}`).join(", ") || "No visits"}>
+              {days.map(([day, n]) => (
+                <div key={day} title={`${day}: ${n}`} className="flex-1 rounded-t bg-tv-focus" style={{ height: `${maxDay ? (n / maxDay) * 100 : 0}%` }} />
+              ))}
+            </div>
+          </Panel>
+        </div>
+      </div>
+    </main>
+  );
+}
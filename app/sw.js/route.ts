@@ -0,0 +1,21 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadSections } from "../../lib/content/load";
+import { contentVersion, NETWORK_ONLY, precacheUrls } from "../../lib/pwa/precache";
+
+// Built once per build, like the pages it saves.
+export const dynamic = "force-static";
+
+/** The service worker: lib/pwa/worker.js with this build's version and precache list in front. */
+export async function GET() {
+  const sections = await loadSections();
+  const worker = await fs.readFile(path.join(process.cwd(), "lib", "pwa", "worker.js"), "utf8");
+  const body = [
+    `const VERSION = ${JSON.stringify(contentVersion(sections))};`,
+    `const PRECACHE = ${JSON.stringify(precacheUrls(sections))};`,
+    `const NETWORK_ONLY = ${JSON.stringify(NETWORK_ONLY)};`,
+    worker,
+  ].join("\n");
+  // no-cache: browsers revalidate the worker on every visit, so updates show up.
+  return new Response(body, { headers: { "Content-Type": "text/javascript; charset=utf-8", "Cache-Control": "no-cache" } });
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { ArrowDown, ArrowUp, FileDown, FileUp, GripVertical, Plus, Trash2, Upload } from "lucide-react";
+import { importResumeFile, saveContent, uploadImage } from "../app/admin/actions";
+import { ACCENTS, type Accent } from "../lib/accents";
+import { freshSlug, move, previewSections, toDraft, type DraftItem, type DraftSection } from "../lib/content/draft";
+import type { Section } from "../lib/types";
+import type { PlayerHandle } from "./ChannelVideo";
+import ChannelView from "./ChannelView";
+import RowRail from "./RowRail";
+import TvBezel from "./TvBezel";
+
+type Selection = { row: number; col: number | null };
+
+const FIELD = "w-full rounded-lg bg-tv-page-ink/5 px-3 py-2 text-sm ring-1 ring-tv-page-ink/15 focus:outline-none focus:ring-2 focus:ring-tv-focus";
+const BUTTON = "inline-flex items-center gap-1 rounded-lg px-2 py-1 text-sm ring-1 ring-tv-page-ink/15 hover:bg-tv-page-ink/10 disabled:opacity-40";
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="block space-y-1 text-sm">
+      <span className="text-tv-page-ink/70">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+/**
+ * The /admin editor: sections and items as forms, reordered by dragging (or
+ * the arrow buttons), next to a live preview built from the real TV
+ * components. Save sends the whole draft to the saveContent action, which
+ * validates it like the build does and lists any problems here. Importing a
+ * JSON Resume writes straight to content/, so it waits for a clean draft.
+ */
+export default function AdminEditor({ sections }: { sections: Section[] }) {
+  const router = useRouter();
+  const [draft, setDraft] = useState(() => toDraft(sections));
+  const [selected, setSelected] = useState<Selection>({ row: 0, col: null });
+  const [issues, setIssues] = useState<string[]>([]);
+  const [status, setStatus] = useState("");
+  const [saving, startSaving] = useTransition();
+  const dragging = useRef<Selection | null>(null);
+  const playerRef = useRef<PlayerHandle>(null);
+
+  // A save re-renders the page with what is now on disk.
+  useEffect(() => setDraft(toDraft(sections)), [sections]);
+
+  const preview = useMemo(() => previewSections(draft, sections), [draft, sections]);
+  const dirty = useMemo(() => JSON.stringify(draft) !== JSON.stringify(toDraft(sections)), [draft, sections]);
+  const row = Math.min(selected.row, draft.length - 1);
+  const col = selected.col !== null && row >= 0 && selected.col < draft[row].items.length ? selected.col : null;
+
+  const edit = (next: DraftSection[]) => {
+    setDraft(next);
+    setStatus("");
+  };
+  const editSection = (r: number, patch: Partial<DraftSection>) => edit(draft.map((s, i) => (i === r ? { ...s, ...patch } : s)));
+  const editItem = (r: number, c: number, patch: Partial<DraftItem>) =>
+    editSection(r, { items: draft[r].items.map((item, i) => (i === c ? { ...item, ...patch } : item)) });
+
+  const moveSection = (from: number, to: number) => {
+    if (to < 0 || to >= draft.length || from === to) return;
+    edit(move(draft, from, to));
+    setSelected({ row: to, col: null });
+  };
+  const moveItem = (r: number, from: number, to: number) => {
+    if (to < 0 || to >= draft[r].items.length || from === to) return;
+    editSection(r, { items: move(draft[r].items, from, to) });
+    setSelected({ row: r, col: to });
+  };
+
+  const addSection = () => {
+    const key = freshSlug("section", draft.map((s) => s.key));
+    const id = freshSlug("item", draft.flatMap((s) => s.items.map((i) => i.id)));
+    edit([...draft, { key, label: "New section", color: "blue", items: [{ id, title: "New item", subtitle: "", image: "", description: "" }] }]);
+    setSelected({ row: draft.length, col: 0 });
+  };
+  const addItem = (r: number) => {
+    const id = freshSlug("item", draft.flatMap((s) => s.items.map((i) => i.id)));
+    editSection(r, { items: [...draft[r].items, { id, title: "New item", subtitle: "", image: "", description: "" }] });
+    setSelected({ row: r, col: draft[r].items.length });
+  };
+  const removeSection = (r: number) => {
+    edit(draft.filter((_, i) => i !== r));
+    setSelected({ row: Math.max(0, r - 1), col: null });
+  };
+  const removeItem = (r: number, c: number) => {
+    editSection(r, { items: draft[r].items.filter((_, i) => i !== c) });
+    setSelected({ row: r, col: null });
+  };
+
+  const upload = async (r: number, c: number, file: File) => {
+    const form = new FormData();
+    form.set("file", file);
+    const result = await uploadImage(form);
+    if (result.ok) editItem(r, c, { image: result.src });
+    else setIssues(result.issues);
+  };
+
+  const save = () =>
+    startSaving(async () => {
+      const result = await saveContent(draft);
+      setIssues(result.ok ? [] : result.issues);
+      if (!result.ok) return;
+      setStatus("Saved.");
+      router.refresh();
+    });
+
+  const importResume = (file: File) =>
+    startSaving(async () => {
+      const form = new FormData();
+      form.set("file", file);
+      const result = await importResumeFile(form);
+      setIssues(result.ok ? [] : result.issues);
+      if (!result.ok) return;
+      setStatus(`Imported: ${result.added} added, ${result.updated} updated.`);
+      router.refresh();
+    });
+
+  // Drag and drop: sections onto sections, items onto items of the same section.
+  const dropTarget = (target: Selection) => ({
+    onDragOver: (e: React.DragEvent) => {
+      const from = dragging.current;
+      if (from && (from.col === null) === (target.col === null) && (target.col === null || from.row === target.row)) e.preventDefault();
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.stopPropagation();
+      const from = dragging.current;
+      dragging.current = null;
+      if (!from) return;
+      if (from.col === null || target.col === null) moveSection(from.row, target.row);
+      else moveItem(target.row, from.col, target.col);
+    },
+  });
+  const dragSource = (source: Selection) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = "move";
+      dragging.current = source;
+    },
+    onDragEnd: () => (dragging.current = null),
+  });
+
+  const item = col !== null ? draft[row].items[col] : null;
+
+  return (
+    <main className="min-h-screen bg-tv-page text-tv-page-ink px-6 py-10">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <header className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-bold">Content editor</h1>
+            <p className="text-sm text-tv-page-ink/70">Drag sections and items to reorder them. Renamed keys and ids keep their old links working.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <span role="status" className="text-sm text-tv-page-ink/70">
+              {saving ? "Saving…" : status || (dirty ? "Unsaved changes" : "")}
+            </span>
+            <label
+              className={`${BUTTON} cursor-pointer ${dirty || saving ? "pointer-events-none opacity-40" : ""}`}
+              title={dirty ? "Save or discard your changes first" : "Update sections from a JSON Resume file"}
+            >
+              <FileUp size={14} /> Import JSON Resume
+              <input
+                type="file"
+                accept="application/json,.json"
+                disabled={dirty || saving}
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importResume(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <a href="/resume.json" download className={BUTTON}>
+              <FileDown size={14} /> Export
+            </a>
+            <button onClick={() => edit(toDraft(sections))} disabled={!dirty || saving} className={BUTTON}>
+              Discard
+            </button>
+            <button onClick={save} disabled={!dirty || saving} className="rounded-lg bg-tv-focus px-4 py-2 text-sm font-medium text-tv-screen disabled:opacity-40">
+              Save
+            </button>
+          </div>
+        </header>
+
+        {issues.length > 0 && (
+          <div role="alert" className="rounded-2xl bg-red-500/10 p-4 text-sm ring-1 ring-red-500/40">
+            <p className="font-semibold">Not saved:</p>
+            <ul className="mt-1 list-disc ps-5">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+          <ol className="space-y-3" aria-label="Sections">
+            {draft.map((s, r) => (
+              // Index keys are fine here: every field is controlled by the draft.
+              <li key={r} {...dropTarget({ row: r, col: null })} className={`rounded-2xl bg-tv-page-ink/5 p-4 ring-1 ${r === row ? "ring-tv-focus" : "ring-tv-page-ink/10"}`}>
+                <div className="flex items-center gap-2">
+                  <span {...dragSource({ row: r, col: null })} className="cursor-grab text-tv-page-ink/50" aria-hidden>
+                    <GripVertical size={18} />
+                  </span>
+                  <button onClick={() => setSelected({ row: r, col: null })} className="flex-1 text-start font-semibold">
+                    <span className={`me-2 inline-block h-3 w-3 rounded-full bg-gradient-to-r ${ACCENTS[s.color]}`} aria-hidden />
+                    {s.label || s.key}
+                  </button>
+                  <button onClick={() => moveSection(r, r - 1)} disabled={r === 0} className={BUTTON} aria-label={`Move ${s.label} up`}>
+                    <ArrowUp size={14} />
+                  </button>
+                  <button onClick={() => moveSection(r, r + 1)} disabled={r === draft.length - 1} className={BUTTON} aria-label={`Move ${s.label} down`}>
+                    <ArrowDown size={14} />
+                  </button>
+                  <button onClick={() => removeSection(r)} className={BUTTON} aria-label={`Delete ${s.label}`}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {r === row && (
+                  <div className="mt-3 grid gap-3 sm:grid-cols-3">
+                    <Field label="Key (URL)">
+                      <input value={s.key} onChange={(e) => editSection(r, { key: e.target.value })} className={`${FIELD} font-mono`} />
+                    </Field>
+                    <Field label="Label">
+                      <input value={s.label} onChange={(e) => editSection(r, { label: e.target.value })} className={FIELD} />
+                    </Field>
+                    <Field label="Accent">
+                      <select value={s.color} onChange={(e) => editSection(r, { color: e.target.value as Accent })} className={FIELD}>
+                        {Object.keys(ACCENTS).map((a) => (
+                          <option key={a} value={a}>
+                            {a}
+                          </option>
+                        ))}
+                      </select>
+                    </Field>
+                  </div>
+                )}
+
+                <ol className="mt-3 space-y-1" aria-label={`${s.label} items`}>
+                  {s.items.map((it, c) => (
+                    <li key={c} {...dropTarget({ row: r, col: c })} className={`flex items-center gap-2 rounded-lg px-2 py-1 ${r === row && c === col ? "bg-tv-focus/20" : ""}`}>
+                      <span {...dragSource({ row: r, col: c })} className="cursor-grab text-tv-page-ink/50" aria-hidden>
+                        <GripVertical size={16} />
+                      </span>
+                      <button onClick={() => setSelected({ row: r, col: c })} className="flex-1 truncate text-start text-sm">
+                        {it.title || it.id} <span className="font-mono text-tv-page-ink/50">{it.id}</span>
+                      </button>
+                      <button onClick={() => moveItem(r, c, c - 1)} disabled={c === 0} className={BUTTON} aria-label={`Move ${it.title} up`}>
+                        <ArrowUp size={14} />
+                      </button>
+                      <button onClick={() => moveItem(r, c, c + 1)} disabled={c === s.items.length - 1} className={BUTTON} aria-label={`Move ${it.title} down`}>
+                        <ArrowDown size={14} />
+                      </button>
+                      <button onClick={() => removeItem(r, c)} className={BUTTON} aria-label={`Delete ${it.title}`}>
+                        <Trash2 size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+                <button onClick={() => addItem(r)} className={`${BUTTON} mt-2`}>
+                  <Plus size={14} /> Add item
+                </button>
+
+                {item && r === row && col !== null && (
+                  <div className="mt-4 grid gap-3 border-t border-tv-page-ink/10 pt-4 sm:grid-cols-2">
+                    <Field label="Id (URL)">
+                      <input value={item.id} onChange={(e) => editItem(r, col, { id: e.target.value })} className={`${FIELD} font-mono`} />
+                    </Field>
+                    <Field label="Title">
+                      <input value={item.title} onChange={(e) => editItem(r, col, { title: e.target.value })} className={FIELD} />
+                    </Field>
+                    <Field label="Subtitle">
+                      <input value={item.subtitle} onChange={(e) => editItem(r, col, { subtitle: e.target.value })} className={FIELD} />
+                    </Field>
+                    <Field label="Image">
+                      <div className="flex gap-2">
+                        <input value={item.image} onChange={(e) => editItem(r, col, { image: e.target.value })} className={FIELD} />
+                        <label className={`${BUTTON} cursor-pointer`}>
+                          <Upload size={14} /> Upload
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg,image/webp,image/gif,image/avif"
+                            className="sr-only"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) void upload(r, col, file);
+                              e.target.value = "";
+                            }}
+                          />
+                        </label>
+                      </div>
+                    </Field>
+                    <div className="sm:col-span-2">
+                      <Field label="Description">
+                        <textarea value={item.description} rows={4} onChange={(e) => editItem(r, col, { description: e.target.value })} className={FIELD} />
+                      </Field>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+            <li>
+              <button onClick={addSection} className={BUTTON}>
+                <Plus size={14} /> Add section
+              </button>
+            </li>
+          </ol>
+
+          <div className="lg:sticky lg:top-6 self-start space-y-2">
+            <div className="text-sm text-tv-page-ink/70">Preview</div>
+            <TvBezel>
+              {col !== null && preview[row] ? (
+                // The detail page isn't previewed, so Details does nothing here.
+                <ChannelView section={preview[row]} col={col} onExit={() => setSelected({ row, col: null })} onDetails={() => {}} setCol={(c) => setSelected({ row, col: c })} playerRef={playerRef} />
+              ) : (
+                <div role="grid" aria-label="Channels" className="space-y-6 py-6 overflow-y-auto h-full">
+                  {preview.map((s, r) => (
+                    <RowRail key={r} section={s} active={r === row} focusedCol={r === row ? 0 : -1} onSelect={(c) => setSelected({ row: r, col: c })} />
+                  ))}
+                </div>
+              )}
+            </TvBezel>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+import { ACCENTS, type Accent } from "../lib/accents";
+import { isOptimizable } from "../lib/images";
+import type { Item } from "../lib/types";
+import NoSignal from "./NoSignal";
+
+/**
+ * An item's image, filling its (positioned) parent via next/image, with the
+ * loader's blur placeholder for local images. With no image, or one that
+ * fails to load, shows a title card in the section's accent instead, or
+ * "No Signal" when the failure is down to being offline. `screen` is the
+ * full-screen channel image: loaded eagerly, with the full No Signal screen.
+ */
+export default function Artwork({ item, color, sizes, screen = false }: { item: Item; color: Accent; sizes: string; screen?: boolean }) {
+  const src = item.image ?? item.poster;
+  const [failed, setFailed] = useState<{ src: string; offline: boolean } | null>(null);
+
+  if (src && failed?.src === src && failed.offline) return <NoSignal compact={!screen} />;
+  if (!src || failed?.src === src) {
+    return (
+      <div data-title-card className={`absolute inset-0 flex items-center justify-center p-4 bg-gradient-to-br ${ACCENTS[color]}`}>
+        <span className="text-center text-xl font-bold text-white/90 line-clamp-3">{item.title}</span>
+      </div>
+    );
+  }
+  return (
+    <Image
+      src={src}
+      alt=""
+      fill
+      sizes={sizes}
+      priority={screen}
+      unoptimized={!isOptimizable(src)}
+      placeholder={item.blur ? "blur" : "empty"}
+      blurDataURL={item.blur}
+      onError={() => setFailed({ src, offline: !navigator.onLine })}
+      className="object-cover"
+    />
+  );
+}
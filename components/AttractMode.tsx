@@ -0,0 +1,58 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useI18n } from "../lib/i18n/context";
+import { attractPlaylist, type KioskOptions } from "../lib/kiosk";
+import type { Section } from "../lib/types";
+import type { PlayerHandle } from "./ChannelVideo";
+import ChannelView from "./ChannelView";
+import Screensaver from "./Screensaver";
+
+const noop = () => {};
+
+/**
+ * Idle-screen overlay: surfs every item once (lib/kiosk.ts playlist) with a
+ * progress bar, then hands over to the screensaver. It sits on top of the
+ * current screen without touching the view state, so waking up is just
+ * unmounting it. Inert: any input wakes the TV before reaching it.
+ */
+export default function AttractMode({ sections, options }: { sections: Section[]; options: KioskOptions }) {
+  const { t } = useI18n();
+  const playlist = useMemo(() => attractPlaylist(sections, options.order), [sections, options.order]);
+  const [step, setStep] = useState(0);
+  const playerRef = useRef<PlayerHandle>(null);
+
+  useEffect(() => {
+    if (step >= playlist.length) return;
+    const timer = setTimeout(() => setStep((s) => s + 1), options.intervalMs);
+    return () => clearTimeout(timer);
+  }, [step, playlist.length, options.intervalMs]);
+
+  const at = playlist[step];
+  return (
+    <motion.div
+      data-attract
+      inert
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 1 }}
+      className="absolute inset-0 z-30 bg-tv-screen"
+      style={{ "--attract-ms": `${options.intervalMs}ms` } as React.CSSProperties}
+    >
+      {at ? (
+        <>
+          <ChannelView section={sections[at.row]} col={at.col} onExit={noop} onDetails={noop} setCol={noop} playerRef={playerRef} ambient />
+          <div className="absolute inset-x-0 top-0 h-1 bg-tv-ink/10">
+            <div key={step} className="tv-attract-progress h-full bg-tv-focus" />
+          </div>
+          <div className="absolute end-4 top-3 rounded bg-tv-screen/70 px-2 text-xs text-tv-ink/80">
+            <span className="font-mono tabular-nums">{step + 1} / {playlist.length}</span> · {t("attract.hint")}
+          </div>
+        </>
+      ) : (
+        <Screensaver />
+      )}
+    </motion.div>
+  );
+}
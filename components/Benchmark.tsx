@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import { Gauge } from "lucide-react";
+import { BENCH_SCRIPT, BENCH_SIZE, FRAME_MS, frameStats, heldSixty, KEY_REPEAT_MS, syntheticCatalog, type FrameStats } from "../lib/bench";
+import TVPortfolio from "./TVPortfolio";
+
+type Result = FrameStats & { mounted: number };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const press = (type: "keydown" | "keyup", key: string, repeat = false) =>
+  window.dispatchEvent(new KeyboardEvent(type, { key, repeat, bubbles: true }));
+
+/**
+ * /bench: the TV on a synthetic 50×200 catalog, and a button that plays a
+ * scripted session of held and tapped arrows (lib/bench.ts) while timing
+ * every animation frame. The panel reports the frame rate and how many tiles
+ * were mounted, which windowing keeps to a screenful however big the catalog.
+ */
+export default function Benchmark() {
+  const sections = useMemo(() => syntheticCatalog(), []);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<Result | null>(null);
+  const busy = useRef(false);
+
+  const run = async (button: HTMLButtonElement) => {
+    if (busy.current) return;
+    busy.current = true;
+    // Keys go to the TV, not to this button.
+    button.blur();
+    setRunning(true);
+    setResult(null);
+
+    const deltas: number[] = [];
+    let mounted = 0;
+    let last = 0;
+    let frame = requestAnimationFrame(function tick(now) {
+      if (last) deltas.push(now - last);
+      last = now;
+      mounted = Math.max(mounted, document.querySelectorAll("[role=gridcell]").length);
+      frame = requestAnimationFrame(tick);
+    });
+
+    for (const { key, ms, pause } of BENCH_SCRIPT) {
+      press("keydown", key);
+      for (let held = KEY_REPEAT_MS; held < ms; held += KEY_REPEAT_MS) {
+        await sleep(KEY_REPEAT_MS);
+        press("keydown", key, true);
+      }
+      press("keyup", key);
+      await sleep(pause);
+    }
+
+    cancelAnimationFrame(frame);
+    setResult({ ...frameStats(deltas), mounted });
+    setRunning(false);
+    busy.current = false;
+  };
+
+  const ms = (n: number) => `${n.toFixed(1)} ms`;
+
+  return (
+    <>
+      <TVPortfolio sections={sections} sandbox />
+      <aside className="fixed top-4 right-4 z-50 w-72 rounded-2xl bg-tv-page/95 text-tv-page-ink p-4 text-sm shadow-2xl ring-1 ring-tv-page-ink/20">
+        <h1 className="mb-2 font-semibold flex items-center gap-2">
+          <Gauge className="w-4 h-4" aria-hidden />
+          Benchmark
+        </h1>
+        <p className="mb-3 text-tv-page-ink/70">
+          {BENCH_SIZE.rows} rows × {BENCH_SIZE.cols} tiles. Runs held and tapped arrows for about 20 seconds.
+        </p>
+        <button
+          onClick={(e) => void run(e.currentTarget)}
+          disabled={running}
+          className="w-full px-3 py-2 rounded-lg bg-tv-page-ink text-tv-page font-medium disabled:opacity-50"
+        >
+          {running ? "Running…" : "Run"}
+        </button>
+        <div role="status" className="mt-3">
+          {result && (
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-1 tabular-nums">
+              <dt>Frame rate</dt>
+              <dd>{result.fps.toFixed(1)} fps</dd>
+              <dt>95th percentile</dt>
+              <dd>{ms(result.p95)}</dd>
+              <dt>Slowest frame</dt>
+              <dd>{ms(result.worst)}</dd>
+              <dt>Dropped</dt>
+              <dd>
+                {result.dropped} of {result.frames}
+              </dd>
+              <dt>Tiles mounted</dt>
+              <dd>
+                {result.mounted} of {(BENCH_SIZE.rows * BENCH_SIZE.cols).toLocaleString("en")}
+              </dd>
+              <dt className="col-span-2 mt-2 font-semibold">
+                {heldSixty(result) ? "Held 60 fps" : `Below 60 fps (frame budget ${ms(FRAME_MS)})`}
+              </dt>
+            </dl>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+}
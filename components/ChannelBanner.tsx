@@ -0,0 +1,61 @@
+"use client";
+
+import React from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ACCENTS, type Accent } from "../lib/accents";
+import { useI18n } from "../lib/i18n/context";
+
+export type BannerInfo =
+  | { kind: "entry"; digits: string }
+  | { kind: "tuned"; channel: number; label: string; title: string; color: Accent }
+  | { kind: "missing"; channel: number };
+
+/** How long the tuned / not-found banner stays up. */
+export const BANNER_MS = 3000;
+
+/**
+ * Set-top-box style channel banner: shows digits while they're typed, then
+ * the number, section and title of whatever was tuned.
+ */
+export default function ChannelBanner({ info }: { info: BannerInfo | null }) {
+  const { t } = useI18n();
+  return (
+    <div className="pointer-events-none absolute top-4 end-4 z-20">
+      <AnimatePresence>
+        {info && (
+          <motion.div
+            key={info.kind === "tuned" ? `tuned-${info.channel}` : info.kind}
+            initial={{ opacity: 0, y: -12 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -12 }}
+            className="flex items-stretch overflow-hidden rounded-xl bg-black/75 ring-1 ring-white/15 backdrop-blur shadow-2xl"
+          >
+            {info.kind === "entry" && (
+              <div className="px-4 py-2 font-mono text-3xl font-bold tracking-widest text-white tabular-nums">
+                {info.digits}
+                <span className="animate-pulse text-white/50">_</span>
+              </div>
+            )}
+            {info.kind === "missing" && (
+              <div className="px-4 py-2 text-white">
+                <div className="font-mono text-3xl font-bold tabular-nums">{info.channel}</div>
+                <div className="text-xs text-white/70">{t("banner.missing")}</div>
+              </div>
+            )}
+            {info.kind === "tuned" && (
+              <>
+                <div className={`flex items-center px-4 bg-gradient-to-b ${ACCENTS[info.color]}`}>
+                  <div className="font-mono text-3xl font-bold text-white tabular-nums drop-shadow">{info.channel}</div>
+                </div>
+                <div className="px-4 py-2 max-w-xs">
+                  <div className="text-[10px] uppercase tracking-wider text-white/70">{info.label}</div>
+                  <div className="text-sm font-semibold text-white line-clamp-1">{info.title}</div>
+                </div>
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
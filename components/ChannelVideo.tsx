@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useEffect, useImperativeHandle, useRef, useState } from "react";
+import { FastForward, Pause, Play, Rewind, Volume2, VolumeX } from "lucide-react";
+import { useI18n } from "../lib/i18n/context";
+import type { PlaybackCommand } from "../lib/navigation";
+import { SEEK_SECONDS, usePageVisible, usePrefersReducedMotion } from "../lib/playback";
+
+export type PlayerHandle = { command: (cmd: PlaybackCommand) => void };
+
+/**
+ * Full-screen clip behind the ChannelView gradient. Starts muted and
+ * autoplays unless the visitor prefers reduced motion; always pauses while
+ * the tab is hidden. Remount (key by item) to reset between channels.
+ */
+export default function ChannelVideo({
+  src,
+  poster,
+  title,
+  ref,
+}: {
+  src: string;
+  poster?: string;
+  title: string;
+  ref?: React.Ref<PlayerHandle>;
+}) {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const reduced = usePrefersReducedMotion();
+  const visible = usePageVisible();
+  // "auto" follows the motion preference until the visitor presses play/pause.
+  const [intent, setIntent] = useState<"auto" | "play" | "pause">("auto");
+  const [muted, setMuted] = useState(true);
+  const [progress, setProgress] = useState(0);
+  const shouldPlay = visible && (intent === "play" || (intent === "auto" && !reduced));
+
+  useEffect(() => {
+    const v = videoRef.current;
+    if (!v) return;
+    if (shouldPlay) v.play().catch(() => setIntent("pause"));
+    else v.pause();
+  }, [shouldPlay]);
+
+  const seek = (delta: number) => {
+    const v = videoRef.current;
+    if (v && Number.isFinite(v.duration)) v.currentTime = Math.max(0, Math.min(v.duration, v.currentTime + delta));
+  };
+  const togglePlay = () => setIntent(shouldPlay ? "pause" : "play");
+
+  useImperativeHandle(ref, () => ({
+    command: (cmd) => {
+      if (cmd === "playPause") togglePlay();
+      if (cmd === "mute") setMuted((m) => !m);
+      if (cmd === "seekBack") seek(-SEEK_SECONDS);
+      if (cmd === "seekForward") seek(SEEK_SECONDS);
+    },
+  }));
+
+  return (
+    <>
+      <video
+        ref={videoRef}
+        src={src}
+        poster={poster}
+        muted={muted}
+        loop
+        playsInline
+        preload="metadata"
+        aria-label={title}
+        onTimeUpdate={(e) => setProgress(e.currentTarget.duration ? e.currentTarget.currentTime / e.currentTarget.duration : 0)}
+        className="absolute inset-0 w-full h-full object-cover"
+      />
+      <div className="absolute top-4 start-4 z-10 flex items-center gap-1 rounded-full bg-black/60 p-1 ring-1 ring-white/15 backdrop-blur">
+        <button onClick={() => seek(-SEEK_SECONDS)} className="p-1.5 rounded-full hover:bg-white/10" aria-label={t("video.back", { n: SEEK_SECONDS })}><Rewind size={14} /></button>
+        <button onClick={togglePlay} className="p-1.5 rounded-full hover:bg-white/10" aria-label={t(shouldPlay ? "video.pause" : "video.play")}>
+          {shouldPlay ? <Pause size={14} /> : <Play size={14} />}
+        </button>
+        <button onClick={() => seek(SEEK_SECONDS)} className="p-1.5 rounded-full hover:bg-white/10" aria-label={t("video.forward", { n: SEEK_SECONDS })}><FastForward size={14} /></button>
+        <button onClick={() => setMuted((m) => !m)} className="p-1.5 rounded-full hover:bg-white/10" aria-label={t(muted ? "video.unmute" : "video.mute")}>
+          {muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+        </button>
+      </div>
+      <div className="absolute bottom-0 left-0 right-0 z-10 h-1 bg-white/10">
+        <div className="h-full bg-white/70" style={{ width: `${progress * 100}%` }} />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { ArrowLeft, ChevronLeft, ChevronRight, CirclePlay, Heart } from "lucide-react";
+import { shouldFollowFocus } from "../lib/a11y";
+import { useI18n } from "../lib/i18n/context";
+import { neighborImages, preloadImages, SCREEN_SIZES } from "../lib/images";
+import { clamp } from "../lib/navigation";
+import type { Section } from "../lib/types";
+import Artwork from "./Artwork";
+import ChannelVideo, { type PlayerHandle } from "./ChannelVideo";
+
+/**
+ * One item full-screen: its clip or image, title, description, channel
+ * surfing buttons and, given `onSave`, a My List toggle. `ambient` is attract mode's version: no buttons, no focus
+ * moves, and a slow Ken Burns pan over the image.
+ */
+export default function ChannelView({
+  section,
+  col,
+  onExit,
+  onDetails,
+  setCol,
+  playerRef,
+  saved = false,
+  onSave,
+  ambient = false,
+}: {
+  section: Section;
+  col: number;
+  onExit: () => void;
+  onDetails: () => void;
+  setCol: (c: number) => void;
+  playerRef: React.Ref<PlayerHandle>;
+  saved?: boolean;
+  onSave?: () => void;
+  ambient?: boolean;
+}) {
+  const { t } = useI18n();
+  const item = section.items[col];
+  const total = section.items.length;
+  const headingRef = useRef<HTMLHeadingElement>(null);
+
+  // Entering or surfing a channel moves focus to its title so screen readers start there.
+  useEffect(() => {
+    if (!ambient && shouldFollowFocus()) headingRef.current?.focus({ preventScroll: true });
+  }, [item.id, ambient]);
+
+  // Surfing left/right should land on an image that is already loaded.
+  useEffect(() => preloadImages(neighborImages([section], 0, col, false), SCREEN_SIZES), [section, col]);
+
+  return (
+    <div className="relative h-full w-full" role="region" aria-label={t("channel.region", { n: item.channel })}>
+      {item.video ? (
+        <ChannelVideo key={item.id} ref={playerRef} src={item.video} poster={item.poster ?? item.image} title={item.title} />
+      ) : (
+        <div key={item.id} className={`absolute inset-0 overflow-hidden ${ambient ? "tv-ken-burns" : ""}`}>
+          <Artwork item={item} color={section.color} sizes={SCREEN_SIZES} screen />
+        </div>
+      )}
+      <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-tv-screen via-tv-screen/40 to-tv-screen/20" />
+
+      <div className="absolute bottom-0 inset-x-0 p-6 grid md:grid-cols-[1fr_auto] gap-4 items-end">
+        <div>
+          <div className="text-tv-ink/90 text-xs uppercase tracking-wider">
+            <span className="font-mono tabular-nums">CH {item.channel}</span> · {section.label}
+          </div>
+          <h1 ref={headingRef} tabIndex={-1} className="text-2xl md:text-3xl font-bold text-tv-ink focus:outline-none">{item.title}</h1>
+          {item.subtitle && <div className="text-tv-ink/80">{item.subtitle}</div>}
+          {item.description && (
+            <p className="mt-3 text-tv-ink/90 max-w-2xl leading-relaxed">{item.description}</p>
+          )}
+          {!ambient && (
+            <div className="mt-4 flex gap-2">
+              <button onClick={onExit} className="px-3 py-2 rounded-lg bg-tv-ink text-tv-screen text-sm font-medium flex items-center gap-2">
+                <ArrowLeft size={16} className="rtl:-scale-x-100" /> {t("channel.back")}
+              </button>
+              <button onClick={onDetails} className="px-3 py-2 rounded-lg bg-tv-ink/10 text-tv-ink text-sm font-medium flex items-center gap-2 ring-1 ring-tv-ink/20">
+                <CirclePlay size={16} /> {t("channel.details")}
+              </button>
+              {onSave && (
+                <button onClick={onSave} aria-pressed={saved} className="px-3 py-2 rounded-lg bg-tv-ink/10 text-tv-ink text-sm font-medium flex items-center gap-2 ring-1 ring-tv-ink/20">
+                  <Heart size={16} className={saved ? "fill-current" : ""} /> {t("channel.myList")}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        {!ambient && (
+          <div className="flex items-center gap-2 justify-end">
+            <button
+              onClick={() => setCol(clamp(col - 1, 0, total - 1))}
+              className="p-2 rounded-full bg-tv-ink/10 ring-1 ring-tv-ink/20 text-tv-ink"
+              aria-label={t("channel.previous")}
+            >
+              <ChevronLeft className="rtl:-scale-x-100" />
+            </button>
+            <div className="text-tv-ink/80 text-sm">{col + 1} / {total}</div>
+            <button
+              onClick={() => setCol(clamp(col + 1, 0, total - 1))}
+              className="p-2 rounded-full bg-tv-ink/10 ring-1 ring-tv-ink/20 text-tv-ink"
+              aria-label={t("channel.next")}
+            >
+              <ChevronRight className="rtl:-scale-x-100" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import React, { useEffect, useImperativeHandle, useRef } from "react";
+import Image from "next/image";
+import { motion } from "framer-motion";
+import ReactMarkdown, { type Components } from "react-markdown";
+import { ArrowLeft, Code2, FileText, Globe, MonitorPlay } from "lucide-react";
+import { ACCENTS } from "../lib/accents";
+import { useI18n } from "../lib/i18n/context";
+import { isOptimizable } from "../lib/images";
+import type { Command } from "../lib/navigation";
+import type { Item, LinkType, Section } from "../lib/types";
+
+const LINK_ICONS: Record<LinkType, typeof Globe> = {
+  repo: Code2,
+  demo: MonitorPlay,
+  paper: FileText,
+  site: Globe,
+};
+
+const SCROLL_STEP = 160;
+
+// The overlay's text column (max-w-3xl), and half of it for the two-up gallery.
+const BODY_SIZES = "(min-width: 48rem) 48rem, 100vw";
+const GALLERY_SIZES = "(min-width: 48rem) 24rem, 100vw";
+
+/**
+ * An image at its natural aspect ratio across the column. Their sizes aren't
+ * known up front, so width/height only hint at the ratio until it loads.
+ */
+function Picture({ src, alt, sizes, className }: { src: string; alt: string; sizes: string; className: string }) {
+  return <Image src={src} alt={alt} width={1200} height={675} sizes={sizes} unoptimized={!isOptimizable(src)} className={`w-full h-auto ${className}`} />;
+}
+
+export type DetailHandle = { command: (cmd: Command) => void };
+
+// react-markdown never renders raw HTML and strips unsafe URLs; links just
+// need to open outside the TV.
+const MARKDOWN: Components = {
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-tv-focus underline underline-offset-2 focus:outline-none focus-visible:ring-2 focus-visible:ring-tv-focus rounded">
+      {children}
+    </a>
+  ),
+  h1: ({ children }) => <h3 className="mt-5 mb-2 text-xl font-semibold text-tv-ink">{children}</h3>,
+  h2: ({ children }) => <h3 className="mt-5 mb-2 text-lg font-semibold text-tv-ink">{children}</h3>,
+  h3: ({ children }) => <h4 className="mt-4 mb-1 font-semibold text-tv-ink">{children}</h4>,
+  p: ({ children }) => <p className="my-3 leading-relaxed">{children}</p>,
+  ul: ({ children }) => <ul className="my-3 list-disc ps-5 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="my-3 list-decimal ps-5 space-y-1">{children}</ol>,
+  code: ({ children }) => <code className="rounded bg-tv-ink/10 px-1 py-0.5 text-sm">{children}</code>,
+  img: ({ src, alt }) => (typeof src === "string" && src ? <Picture src={src} alt={alt ?? ""} sizes={BODY_SIZES} className="my-3 rounded-lg" /> : null),
+};
+
+/**
+ * Detail page for an item, shown over its ChannelView. D-pad up/down scroll,
+ * left/right move focus between links, OK opens the focused link; Back is
+ * handled by the reducer.
+ */
+export default function DetailOverlay({
+  section,
+  item,
+  onClose,
+  onLinkOpen,
+  ref,
+}: {
+  section: Section;
+  item: Item;
+  onClose: () => void;
+  onLinkOpen?: () => void;
+  ref?: React.Ref<DetailHandle>;
+}) {
+  const { t } = useI18n();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const linkIndex = useRef(-1);
+
+  // Move DOM focus into the overlay so Tab and screen readers start here.
+  useEffect(() => {
+    scrollRef.current?.focus({ preventScroll: true });
+    linkIndex.current = -1;
+  }, [item.id]);
+
+  useImperativeHandle(ref, () => ({
+    command: (cmd) => {
+      const el = scrollRef.current;
+      if (!el) return;
+      const links = Array.from(el.querySelectorAll<HTMLAnchorElement>("a[href]"));
+      if (cmd.type === "up" || cmd.type === "down") {
+        el.scrollBy({ top: cmd.type === "up" ? -SCROLL_STEP : SCROLL_STEP, behavior: "smooth" });
+      } else if ((cmd.type === "left" || cmd.type === "right") && links.length) {
+        const next = Math.max(0, Math.min(links.length - 1, linkIndex.current + (cmd.type === "right" ? 1 : -1)));
+        linkIndex.current = next;
+        links[next].focus();
+        links[next].scrollIntoView({ behavior: "smooth", block: "nearest" });
+      } else if (cmd.type === "ok") {
+        // Prefer a link focused with Tab; the key handler swallows Enter's native activation.
+        const active = document.activeElement;
+        const link = active instanceof HTMLAnchorElement && el.contains(active) ? active : links[linkIndex.current];
+        link?.click();
+      }
+    },
+  }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 24 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 24 }}
+      className="absolute inset-0 z-10 bg-tv-screen/90 backdrop-blur"
+      role="dialog"
+      aria-modal="true"
+      aria-label={t("detail.label", { title: item.title })}
+    >
+      <div
+        ref={scrollRef}
+        tabIndex={-1}
+        // Covers the link buttons and links in the write-up, however they're activated.
+        onClickCapture={(e) => (e.target as Element).closest("a[href]") && onLinkOpen?.()}
+        className="h-full overflow-y-auto no-scrollbar p-6 focus:outline-none"
+      >
+        <div className="max-w-3xl mx-auto">
+          <button onClick={onClose} className="mb-4 px-3 py-2 rounded-lg bg-tv-ink/10 ring-1 ring-tv-ink/20 text-sm flex items-center gap-2">
+            <ArrowLeft size={16} className="rtl:-scale-x-100" /> {t("detail.back")}
+          </button>
+
+          <div className="text-tv-ink/70 text-xs uppercase tracking-wider">
+            <span className="font-mono tabular-nums">CH {item.channel}</span> · {section.label}
+          </div>
+          <h2 className="text-3xl font-bold text-tv-ink">{item.title}</h2>
+          {item.subtitle && <div className="text-tv-ink/80">{item.subtitle}</div>}
+
+          {item.tags.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {item.tags.map((tag) => (
+                <span key={tag} className={`px-2 py-0.5 rounded-full text-xs text-tv-ink bg-gradient-to-r ${ACCENTS[section.color]}`}>{tag}</span>
+              ))}
+            </div>
+          )}
+
+          {item.links.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {item.links.map((link) => {
+                const Icon = LINK_ICONS[link.type];
+                return (
+                  <a
+                    key={link.url}
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-2 rounded-lg bg-tv-ink text-tv-screen text-sm font-medium flex items-center gap-2 focus:outline-none focus-visible:ring-4 focus-visible:ring-tv-focus"
+                  >
+                    <Icon size={16} /> {link.label ?? t(`link.${link.type}`)}
+                  </a>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4 text-tv-ink/90">
+            {item.body ? <ReactMarkdown components={MARKDOWN}>{item.body}</ReactMarkdown> : item.description && <p className="leading-relaxed">{item.description}</p>}
+          </div>
+
+          {item.media.length > 0 && (
+            <div className="mt-6 grid gap-3 sm:grid-cols-2">
+              {item.media.map((m) =>
+                m.type === "image" ? (
+                  <Picture key={m.src} src={m.src} alt={m.alt ?? item.title} sizes={GALLERY_SIZES} className="rounded-xl object-cover ring-1 ring-tv-ink/10" />
+                ) : (
+                  <video key={m.src} src={m.src} poster={m.poster} controls preload="metadata" aria-label={m.alt ?? item.title} className="w-full rounded-xl ring-1 ring-tv-ink/10" />
+                ),
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+}
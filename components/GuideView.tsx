@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef } from "react";
+import { shouldFollowFocus } from "../lib/a11y";
+import { ACCENTS } from "../lib/accents";
+import { guideLayout, monthOf } from "../lib/guide";
+import { useI18n } from "../lib/i18n/context";
+import type { Focus, Section } from "../lib/types";
+
+const MONTH_PX = 20;
+const LANE_PX = 168;
+const ROW_PX = 64;
+
+const fmt = (d: string, locale: string) => new Date(`${d.slice(0, 7)}-01T00:00:00`).toLocaleDateString(locale, { month: "short", year: "numeric" });
+
+/**
+ * Program guide grid: one row per section, one column per year. D-pad focus
+ * is handled by the reducer (lib/guide.ts guideStep); this only renders.
+ * Time runs left to right in every locale, so the grid itself stays LTR.
+ */
+export default function GuideView({
+  sections,
+  focus,
+  onSelect,
+}: {
+  sections: Section[];
+  focus: Focus;
+  onSelect: (row: number, col: number) => void;
+}) {
+  const { t, locale } = useI18n();
+  const layout = useMemo(() => guideLayout(sections, monthOf(new Date())), [sections]);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const laneWidth = layout.lane * LANE_PX;
+
+  useEffect(() => {
+    const el = gridRef.current?.querySelector<HTMLElement>(`[data-guide="${focus.row}-${focus.col}"]`);
+    el?.scrollIntoView({ behavior: "smooth", inline: "center", block: "nearest" });
+    if (shouldFollowFocus()) el?.focus({ preventScroll: true });
+  }, [focus.row, focus.col]);
+
+  return (
+    <div className="absolute inset-0 flex flex-col" role="region" aria-label={t("guide.region")}>
+      <div className="flex items-center justify-between px-6 pt-4 pb-2">
+        <div className="text-lg font-semibold">{t("guide.title")}</div>
+        <div className="text-xs text-tv-ink/70">{t("guide.hint")}</div>
+      </div>
+
+      <div ref={gridRef} dir="ltr" className="flex-1 overflow-auto no-scrollbar px-6 pb-6">
+        <div className="relative" style={{ width: 144 + laneWidth + layout.months * MONTH_PX }}>
+          {/* Time header */}
+          <div aria-hidden className="sticky top-0 z-10 flex h-8 bg-tv-screen/90 text-xs text-tv-ink/60">
+            <div className="sticky left-0 z-10 w-36 shrink-0 bg-tv-screen/90" />
+            {layout.lane > 0 && <div className="shrink-0 px-2 py-2" style={{ width: laneWidth }}>{t("guide.anytime")}</div>}
+            {layout.years.map((y) => (
+              <div key={y} className="shrink-0 border-l border-tv-ink/10 px-2 py-2" style={{ width: 12 * MONTH_PX }}>
+                {y}
+              </div>
+            ))}
+          </div>
+
+          {sections.map((section, row) => {
+            const { undated, blocks, tracks } = layout.rows[row];
+            const block = (col: number, left: number, width: number, track: number, dates?: string) => {
+              const item = section.items[col];
+              const focused = focus.row === row && focus.col === col;
+              return (
+                <button
+                  key={item.id}
+                  data-guide={`${row}-${col}`}
+                  tabIndex={focused ? 0 : -1}
+                  aria-label={[item.title, dates ?? item.subtitle ?? t("guide.anytime"), t("tile.channel", { n: item.channel })].join(", ")}
+                  onClick={() => onSelect(row, col)}
+                  className={`absolute overflow-hidden rounded-lg px-2 text-left ring-2 transition-colors focus:outline-none ${
+                    focused ? `bg-gradient-to-r ${ACCENTS[section.color]} text-white ring-tv-focus` : "bg-tv-ink/10 ring-tv-ink/10 hover:bg-tv-ink/15"
+                  }`}
+                  style={{ left: left + 2, width: width - 4, top: track * ROW_PX + 4, height: ROW_PX - 8 }}
+                >
+                  <div className="text-sm font-semibold line-clamp-1">{item.title}</div>
+                  <div className="text-xs opacity-70 line-clamp-1">{dates ?? item.subtitle}</div>
+                </button>
+              );
+            };
+
+            return (
+              <div key={section.key} role="group" aria-label={section.label} className="flex border-t border-tv-ink/5" style={{ height: tracks * ROW_PX }}>
+                <div className="sticky left-0 z-10 flex w-36 shrink-0 items-center gap-2 bg-tv-screen/90 pr-2">
+                  <div className={`h-8 w-1 rounded bg-gradient-to-b ${ACCENTS[section.color]}`} />
+                  <div aria-hidden className="text-sm font-medium text-tv-ink/90 line-clamp-2">{section.label}</div>
+                </div>
+                <div className="relative flex-1">
+                  {undated.map((col, i) => block(col, i * LANE_PX, LANE_PX, 0))}
+                  {blocks.map((b) => {
+                    const item = section.items[b.col];
+                    const dates = `${fmt(item.start!, locale)} – ${item.end ? fmt(item.end, locale) : t("guide.now")}`;
+                    return block(b.col, laneWidth + (b.from - layout.start) * MONTH_PX, (b.to - b.from) * MONTH_PX, b.track, dates);
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef } from "react";
+import { useI18n } from "../lib/i18n/context";
+import { usePrefersReducedMotion } from "../lib/playback";
+import type { Focus, Item, Section } from "../lib/types";
+import { nearestOffset, OVERSCAN, readOffset, ROW, ROW_STRIDE, scrollToOffset, useVisibleRange } from "../lib/windowing";
+import RowRail from "./RowRail";
+
+/** Where the home screen was scrolled to, kept by TVPortfolio while a channel is open. */
+export type HomeScroll = { top: number; rails: Map<string, number> };
+
+const PAD = { top: 8, bottom: 56 };
+
+// Shelves and sections may share a key; their rails' scroll is kept apart.
+const railKey = (rows: Section[], shelfCount: number, r: number) => (r < shelfCount ? `shelf:${rows[r].key}` : rows[r].key);
+
+/**
+ * The home screen's ARIA grid: personal shelves, then the sections. Rows are
+ * windowed like the tiles in each rail (lib/windowing.ts), so a catalog of
+ * thousands of items mounts only what fits on the screen. `scroll` remembers
+ * the grid's and every rail's position across visits to a channel.
+ */
+export default function HomeGrid({
+  rows,
+  shelfCount,
+  focus,
+  onSelect,
+  saved,
+  scroll,
+}: {
+  rows: Section[];
+  shelfCount: number;
+  focus: Focus;
+  onSelect: (row: number, col: number) => void;
+  saved: ReadonlySet<Item>;
+  scroll: HomeScroll;
+}) {
+  const { t } = useI18n();
+  const gridRef = useRef<HTMLDivElement>(null);
+  const reduced = usePrefersReducedMotion();
+  const keyOf = (r: number) => railKey(rows, shelfCount, r);
+
+  const [first, end] = useVisibleRange(gridRef, "y", {
+    stride: ROW_STRIDE,
+    count: rows.length,
+    overscan: OVERSCAN.rows,
+    initial: scroll.top,
+    onScrolled: (offset) => (scroll.top = offset),
+  });
+  const shown = Array.from({ length: end - first }, (_, i) => first + i);
+  if (focus.row < first) shown.unshift(focus.row);
+  if (focus.row >= end && focus.row < rows.length) shown.push(focus.row);
+
+  // One callback each for every row (they say which), so rows the focus didn't
+  // touch skip re-rendering (RowRail is memoised).
+  const select = useCallback((col: number, row: number) => onSelect(row, col), [onSelect]);
+  const scrolled = useCallback(
+    (offset: number, row: number) => scroll.rails.set(railKey(rows, shelfCount, row), offset),
+    [scroll, rows, shelfCount],
+  );
+
+  // Keep the focused row on screen: the least scroll, gliding except when the
+  // grid first appears. Only focus moves count, not re-renders.
+  const shownRow = useRef<number | null>(null);
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid || focus.row === shownRow.current) return;
+    const top = focus.row * ROW_STRIDE;
+    const offset = readOffset(grid, "y");
+    const target = nearestOffset(top, top + ROW.height + PAD.top + PAD.bottom, offset, grid.clientHeight);
+    if (target !== offset) scrollToOffset(grid, "y", target, shownRow.current !== null && !reduced);
+    shownRow.current = focus.row;
+  });
+
+  return (
+    <div ref={gridRef} role="grid" aria-label={t("home.grid")} aria-rowcount={rows.length} className="flex-1 min-h-0 overflow-y-auto">
+      <div role="presentation" className="relative" style={{ height: PAD.top + rows.length * ROW_STRIDE - ROW.gap + PAD.bottom }}>
+        {shown.map((r) => (
+          <RowRail
+            key={keyOf(r)}
+            section={rows[r]}
+            row={r}
+            top={PAD.top + r * ROW_STRIDE}
+            active={focus.row === r}
+            focusedCol={focus.row === r ? focus.col : -1}
+            onSelect={select}
+            saved={saved}
+            initialScroll={scroll.rails.get(keyOf(r))}
+            onScrolled={scrolled}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { X } from "lucide-react";
+import { useI18n } from "../lib/i18n/context";
+import { BINDABLE, DEFAULT_BINDINGS, keyLabel, rebind, type Bindable, type KeyBindings } from "../lib/input/keyboard";
+
+/**
+ * Key-binding editor. Click "Change", then press the key to use; digits are
+ * reserved for the number pad and can't be bound.
+ */
+export default function KeyBindingsPanel({
+  bindings,
+  onChange,
+  onClose,
+}: {
+  bindings: KeyBindings;
+  onChange: (b: KeyBindings) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [listening, setListening] = useState<Bindable | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Modal focus: move in on open, hand back to whatever opened it on close.
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>("button")?.focus();
+    return () => opener?.focus?.();
+  }, []);
+
+  useEffect(() => {
+    if (listening) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [listening, onClose]);
+
+  useEffect(() => {
+    if (!listening) return;
+    const onKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (/^[0-9]$/.test(e.key) || ["Shift", "Control", "Alt", "Meta"].includes(e.key)) return;
+      onChange(rebind(bindings, listening, e.key));
+      setListening(null);
+    };
+    window.addEventListener("keydown", onKey, true);
+    return () => window.removeEventListener("keydown", onKey, true);
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <motion.div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="keybindings-title"
+        initial={{ opacity: 0, scale: 0.96 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-80 rounded-2xl bg-tv-panel text-tv-panel-ink p-5 shadow-2xl ring-1 ring-tv-panel-ink/10"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div id="keybindings-title" className="font-semibold">{t("keys.title")}</div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-tv-panel-ink/10" aria-label={t("keys.close")}>
+            <X size={16} />
+          </button>
+        </div>
+        <div className="space-y-2 text-sm">
+          {BINDABLE.map((cmd) => (
+            <div key={cmd} className="flex items-center justify-between gap-3">
+              <div className="text-tv-panel-ink/80">{t(`command.${cmd}`)}</div>
+              <div className="flex items-center gap-2">
+                <div className="text-tv-panel-ink/60 text-xs">{bindings[cmd].map(keyLabel).join(", ") || "—"}</div>
+                <button
+                  onClick={() => setListening(listening === cmd ? null : cmd)}
+                  className={`px-2 py-1 rounded-lg text-xs ring-1 ${
+                    listening === cmd ? "bg-sky-500 text-white ring-sky-300" : "bg-tv-panel-ink/10 ring-tv-panel-ink/20"
+                  }`}
+                >
+                  {listening === cmd ? t("keys.listening") : <>{t("keys.change")}<span className="sr-only"> {t(`command.${cmd}`)}</span></>}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="mt-4 flex justify-between">
+          <button onClick={() => onChange(DEFAULT_BINDINGS)} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 text-sm">
+            {t("keys.reset")}
+          </button>
+          <button onClick={onClose} className="px-3 py-2 rounded-lg bg-tv-panel-ink text-tv-panel text-sm font-medium">
+            {t("keys.done")}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
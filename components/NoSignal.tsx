@@ -0,0 +1,22 @@
+"use client";
+
+import React from "react";
+import { useI18n } from "../lib/i18n/context";
+
+/**
+ * Static noise with "No Signal", shown offline in place of anything that
+ * wasn't saved for offline use. Fills its (positioned) parent; `compact`
+ * drops the explanation for tile-sized spots.
+ */
+export default function NoSignal({ compact = false }: { compact?: boolean }) {
+  const { t } = useI18n();
+  return (
+    <div data-no-signal className="absolute inset-0 overflow-hidden bg-tv-screen">
+      <div className="tv-noise absolute -inset-1/4 opacity-50" aria-hidden />
+      <div className="relative flex h-full flex-col items-center justify-center gap-2 p-4 text-center">
+        <div className={`rounded bg-tv-screen/70 px-2 font-mono uppercase tracking-widest text-tv-ink ${compact ? "text-sm" : "text-3xl"}`}>{t("offline.noSignal")}</div>
+        {!compact && <p className="max-w-sm rounded bg-tv-screen/70 px-2 text-sm text-tv-ink/80">{t("offline.hint")}</p>}
+      </div>
+    </div>
+  );
+}
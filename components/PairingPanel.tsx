@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import QRCode from "qrcode";
+import { Smartphone, X } from "lucide-react";
+import { useI18n } from "../lib/i18n/context";
+import { withLocale } from "../lib/i18n/locales";
+import type { PairingStatus } from "../lib/remote/pairing";
+import { pairingUrl } from "../lib/remote/protocol";
+
+/** Dark modules on white with a quiet zone, whatever the skin, so phone cameras can read it. */
+function QrCode({ text, label }: { text: string; label: string }) {
+  const { size, path } = useMemo(() => {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+    let d = "";
+    for (let r = 0; r < modules.size; r++) {
+      for (let c = 0; c < modules.size; c++) if (modules.get(r, c)) d += `M${c + 4} ${r + 4}h1v1h-1z`;
+    }
+    return { size: modules.size + 8, path: d };
+  }, [text]);
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} role="img" aria-label={label} className="w-44 h-44 rounded-lg" shapeRendering="crispEdges">
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+}
+
+/**
+ * Pairing dialog: QR code and short code for /remote on a phone, plus the
+ * session status. Closes itself once a phone connects (see TVPortfolio).
+ */
+export default function PairingPanel({
+  code,
+  status,
+  onRetry,
+  onStop,
+  onClose,
+}: {
+  code: string | null;
+  status: PairingStatus;
+  onRetry: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}) {
+  const { t, locale } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [origin, setOrigin] = useState("");
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  // Modal focus, as in KeyBindingsPanel.
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>("button")?.focus();
+    return () => opener?.focus?.();
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  // The phone opens in the TV's language.
+  const url = code && origin ? withLocale(pairingUrl(origin, code), locale) : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <motion.div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="pairing-title"
+        initial={{ opacity: 0, scale: 0.96 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="w-80 rounded-2xl bg-tv-panel text-tv-panel-ink p-5 shadow-2xl ring-1 ring-tv-panel-ink/10"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div id="pairing-title" className="font-semibold">{t("pair.title")}</div>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-tv-panel-ink/10" aria-label={t("keys.close")}>
+            <X size={16} />
+          </button>
+        </div>
+
+        {url && code ? (
+          <div className="flex flex-col items-center gap-3 text-center text-sm">
+            <QrCode text={url} label={t("pair.qr", { url })} />
+            <p className="text-tv-panel-ink/80">{t("pair.scan", { url: `${origin}/remote` })}</p>
+            <div className="font-mono text-3xl font-bold tracking-[0.3em]" dir="ltr">{code}</div>
+          </div>
+        ) : null}
+
+        <div role="status" className="mt-4 flex items-center justify-center gap-2 text-sm text-tv-panel-ink/80">
+          <Smartphone size={16} aria-hidden />
+          {t(`pair.${status === "off" ? "opening" : status}`)}
+        </div>
+
+        <div className="mt-4 flex justify-between">
+          {status === "failed" ? (
+            <button onClick={onRetry} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 text-sm">
+              {t("pair.retry")}
+            </button>
+          ) : (
+            <button onClick={onStop} disabled={!code} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 text-sm disabled:opacity-50">
+              {t("pair.stop")}
+            </button>
+          )}
+          <button onClick={onClose} className="px-3 py-2 rounded-lg bg-tv-panel-ink text-tv-panel text-sm font-medium">
+            {t("pair.done")}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
+
+/** Corner pill while a session is open; opens the dialog again. */
+export function PairingBadge({ code, status, onClick }: { code: string | null; status: PairingStatus; onClick: () => void }) {
+  const { t } = useI18n();
+  const live = status === "connected";
+  return (
+    <button
+      onClick={onClick}
+      className="fixed bottom-4 left-4 z-50 inline-flex items-center gap-2 px-3 py-2 rounded-full bg-tv-panel/80 text-tv-panel-ink text-sm ring-1 ring-tv-panel-ink/20 backdrop-blur"
+    >
+      <span className={`h-2 w-2 rounded-full ${live ? "bg-emerald-400" : status === "lost" || status === "failed" ? "bg-rose-400" : "bg-amber-400"}`} aria-hidden />
+      <Smartphone size={16} aria-hidden />
+      {t(`pair.${status === "off" ? "opening" : status}`)}
+      {code && <span className="font-mono text-xs text-tv-panel-ink/70" dir="ltr">{code}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Smartphone, Unplug } from "lucide-react";
+import { I18nContext, i18nFor } from "../lib/i18n/context";
+import { DEFAULT_LOCALE, localeFromSearch, withLocale, type Locale } from "../lib/i18n/locales";
+import type { Command } from "../lib/navigation";
+import { CODE_LENGTH, isCode, normalizeCode, sessionUrl, type Peers } from "../lib/remote/protocol";
+import { RemotePad } from "./Remote";
+
+type PhoneStatus = "idle" | "connecting" | "connected" | "tvAway" | "ended" | "invalid";
+
+const STATUS_KEYS = {
+  connecting: "phone.connecting",
+  connected: "phone.connected",
+  tvAway: "phone.tvAway",
+  ended: "phone.ended",
+  invalid: "phone.invalid",
+} as const;
+
+/**
+ * The phone end of pairing (/remote?code=…): the Remote's buttons, relayed to
+ * the TV page that showed the code. Without a (valid) code it asks for one.
+ */
+export default function PhoneRemote() {
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [code, setCode] = useState<string | null>(null);
+  const [entry, setEntry] = useState("");
+  const [status, setStatus] = useState<PhoneStatus>("idle");
+  const i18n = useMemo(() => i18nFor(locale), [locale]);
+  const { t, dir } = i18n;
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setLocale(localeFromSearch(window.location.search));
+    const fromUrl = normalizeCode(params.get("code") ?? "");
+    if (isCode(fromUrl)) setCode(fromUrl);
+    else setEntry(fromUrl);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  useEffect(() => {
+    if (!code) return;
+    setStatus("connecting");
+    let opened = false;
+    const events = new EventSource(sessionUrl(code));
+    events.addEventListener("peers", (e) => {
+      opened = true;
+      setStatus((JSON.parse(e.data) as Peers).tv ? "connected" : "tvAway");
+    });
+    events.addEventListener("ended", () => {
+      events.close();
+      setStatus("ended");
+    });
+    // Dropped connections are retried by EventSource; CLOSED means the code is unknown (or gone).
+    events.onerror = () => {
+      if (events.readyState !== EventSource.CLOSED) return setStatus("connecting");
+      if (opened) return setStatus("ended");
+      // Back to the form, with the code left in for correcting.
+      setEntry(code);
+      setCode(null);
+      setStatus("invalid");
+    };
+    return () => events.close();
+  }, [code]);
+
+  const goTo = (next: string | null) => {
+    setCode(next);
+    setStatus("idle");
+    history.replaceState(null, "", withLocale(next ? `/remote?code=${next}` : "/remote", locale));
+  };
+
+  const send = useCallback(
+    async (cmd: Command) => {
+      if (!code) return;
+      navigator.vibrate?.(10);
+      try {
+        const res = await fetch(sessionUrl(code), { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(cmd) });
+        if (res.status === 409) setStatus("tvAway");
+        if (res.status === 404) setStatus("ended");
+      } catch {
+        setStatus("connecting");
+      }
+    },
+    [code],
+  );
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = normalizeCode(entry);
+    if (isCode(next)) goTo(next);
+  };
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <main className="min-h-screen w-full bg-tv-page text-tv-page-ink flex flex-col items-center gap-5 px-4 py-8">
+        <h1 className="text-lg font-semibold flex items-center gap-2">
+          <Smartphone size={18} aria-hidden /> {t("phone.title")}
+        </h1>
+
+        <div role="status" className="text-sm text-tv-page-ink/80 text-center">
+          {status !== "idle" && t(STATUS_KEYS[status], { code: code ?? entry })}
+        </div>
+
+        {code ? (
+          <>
+            <div dir="ltr" className={`w-full max-w-xs transition-opacity ${status === "connected" ? "" : "opacity-50"}`}>
+              <RemotePad className="w-full shadow-2xl" onCommand={(cmd) => void send(cmd)} />
+            </div>
+            <button onClick={() => goTo(null)} className="px-3 py-2 rounded-lg bg-tv-page-ink/10 ring-1 ring-tv-page-ink/20 text-sm flex items-center gap-2">
+              <Unplug size={16} aria-hidden /> {t("phone.disconnect")}
+            </button>
+          </>
+        ) : (
+          <form onSubmit={submit} className="w-full max-w-xs flex flex-col gap-3">
+            <label htmlFor="pairing-code" className="text-sm text-tv-page-ink/80">
+              {t("phone.enter")}
+            </label>
+            <input
+              id="pairing-code"
+              value={entry}
+              onChange={(e) => setEntry(normalizeCode(e.target.value).slice(0, CODE_LENGTH))}
+              autoComplete="off"
+              autoCapitalize="characters"
+              spellCheck={false}
+              dir="ltr"
+              placeholder={"•".repeat(CODE_LENGTH)}
+              aria-label={t("phone.code")}
+              className="rounded-lg bg-tv-page-ink/10 px-3 py-3 text-center font-mono text-2xl tracking-[0.3em] ring-1 ring-tv-page-ink/20 focus:outline-none focus:ring-2 focus:ring-tv-focus"
+            />
+            <button type="submit" disabled={!isCode(normalizeCode(entry))} className="px-3 py-3 rounded-lg bg-tv-page-ink text-tv-page font-medium disabled:opacity-50">
+              {t("phone.connect")}
+            </button>
+          </form>
+        )}
+      </main>
+    </I18nContext.Provider>
+  );
+}
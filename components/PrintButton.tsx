@@ -0,0 +1,13 @@
+"use client";
+
+import React from "react";
+import { Printer } from "lucide-react";
+
+/** Opens the browser's print dialog, for the otherwise server-rendered résumé page. */
+export default function PrintButton({ className = "" }: { className?: string }) {
+  return (
+    <button type="button" onClick={() => window.print()} className={`inline-flex items-center gap-1 ${className}`}>
+      <Printer size={14} /> Print
+    </button>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { House, ArrowLeft, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, GripHorizontal, Settings, CalendarDays, Rewind, Play, FastForward, VolumeX, Search, Languages, Heart } from "lucide-react";
+import { useI18n } from "../lib/i18n/context";
+import { LOCALE_NAMES } from "../lib/i18n/locales";
+import { useHoldRepeat } from "../lib/input/repeat";
+import type { Command } from "../lib/navigation";
+
+/**
+ * The Remote's buttons as an ARIA toolbar. Shared by the floating Remote on
+ * the TV page and the phone remote at /remote; `onLanguage` is TV-only.
+ * Holding a D-pad arrow repeats it, faster the longer it is held.
+ */
+export function RemotePad({
+  id,
+  className = "",
+  onCommand,
+  onLanguage,
+}: {
+  id?: string;
+  className?: string;
+  onCommand: (cmd: Command) => void;
+  onLanguage?: () => void;
+}) {
+  const { t, locale } = useI18n();
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  const buttons = () => Array.from(toolbarRef.current?.querySelectorAll("button") ?? []);
+  const hold = useHoldRepeat(onCommand);
+
+  // ARIA toolbar: a single tab stop, arrows/Home/End move between buttons.
+  useEffect(() => {
+    buttons().forEach((b, i) => (b.tabIndex = i === 0 ? 0 : -1));
+  }, []);
+
+  const onToolbarKey = (e: React.KeyboardEvent) => {
+    const all = buttons();
+    const at = all.indexOf(document.activeElement as HTMLButtonElement);
+    if (at < 0) return;
+    const moves: Record<string, number> = { ArrowRight: at + 1, ArrowDown: at + 1, ArrowLeft: at - 1, ArrowUp: at - 1, Home: 0, End: all.length - 1 };
+    if (!(e.key in moves)) return;
+    e.preventDefault(); // also tells the TV key handler to ignore it
+    all[(moves[e.key] + all.length) % all.length].focus();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      id={id}
+      ref={toolbarRef}
+      role="toolbar"
+      aria-label={t("remote.label")}
+      onKeyDown={onToolbarKey}
+      onFocus={(e) => buttons().forEach((b) => (b.tabIndex = b === (e.target as Element) ? 0 : -1))}
+      // Clicking remote buttons shouldn't pull focus away from the TV.
+      onMouseDown={(e) => (e.target as HTMLElement).closest("button") && e.preventDefault()}
+      className={`rounded-2xl bg-tv-panel text-tv-panel-ink p-4 ring-1 ring-tv-panel-ink/10 ${className}`}
+    >
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={() => onCommand({ type: "home" })} className="col-span-1 px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center gap-2"><House size={16}/>{t("remote.home")}</button>
+        <button onClick={() => onCommand({ type: "settings" })} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center" aria-label={t("remote.settings")}><Settings size={16}/></button>
+        <button onClick={() => onCommand({ type: "back" })} className="col-span-1 px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center gap-2"><ArrowLeft size={16}/>{t("remote.back")}</button>
+
+        <div />
+        <button {...hold({ type: "up" })} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center" aria-label={t("remote.up")}><ChevronUp/></button>
+        <div />
+
+        <button {...hold({ type: "left" })} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center" aria-label={t("remote.left")}><ChevronLeft/></button>
+        <button onClick={() => onCommand({ type: "ok" })} className="px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-500 to-sky-500 text-white font-semibold">{t("remote.ok")}</button>
+        <button {...hold({ type: "right" })} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center" aria-label={t("remote.right")}><ChevronRight/></button>
+
+        <button onClick={() => onCommand({ type: "guide" })} className="px-2 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center gap-1 text-xs"><CalendarDays size={14}/>{t("remote.guide")}</button>
+        <button {...hold({ type: "down" })} className="px-3 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center" aria-label={t("remote.down")}><ChevronDown/></button>
+        <button onClick={() => onCommand({ type: "search" })} className="px-2 py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 flex items-center justify-center gap-1 text-xs"><Search size={14}/>{t("remote.search")}</button>
+      </div>
+      <div className="mt-3 grid grid-cols-3 gap-2 text-sm">
+        {[1,2,3,4,5,6,7,8,9].map(n => (
+          <button key={n} onClick={() => onCommand({ type: "number", n })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10">{n}</button>
+        ))}
+        <button onClick={() => onCommand({ type: "channelDown" })} className="py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 text-xs font-semibold" aria-label={t("remote.channelDown")}>CH−</button>
+        <button onClick={() => onCommand({ type: "number", n: 0 })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10">0</button>
+        <button onClick={() => onCommand({ type: "channelUp" })} className="py-2 rounded-lg bg-tv-panel-ink/10 ring-1 ring-tv-panel-ink/20 text-xs font-semibold" aria-label={t("remote.channelUp")}>CH+</button>
+      </div>
+      <div className={`mt-3 grid gap-2 ${onLanguage ? "grid-cols-6" : "grid-cols-5"}`}>
+        <button onClick={() => onCommand({ type: "seekBack" })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10 flex items-center justify-center" aria-label={t("remote.rewind")}><Rewind size={14}/></button>
+        <button onClick={() => onCommand({ type: "playPause" })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10 flex items-center justify-center" aria-label={t("remote.playPause")}><Play size={14}/></button>
+        <button onClick={() => onCommand({ type: "seekForward" })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10 flex items-center justify-center" aria-label={t("remote.fastForward")}><FastForward size={14}/></button>
+        <button onClick={() => onCommand({ type: "mute" })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10 flex items-center justify-center" aria-label={t("remote.mute")}><VolumeX size={14}/></button>
+        <button onClick={() => onCommand({ type: "favorite" })} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10 flex items-center justify-center" aria-label={t("remote.favorite")}><Heart size={14}/></button>
+        {onLanguage && <button onClick={onLanguage} className="py-2 rounded-lg bg-tv-panel-ink/5 ring-1 ring-tv-panel-ink/10 flex items-center justify-center gap-0.5 text-[10px] font-semibold uppercase" aria-label={t("remote.language", { name: LOCALE_NAMES[locale] })}><Languages size={12}/>{locale}</button>}
+      </div>
+    </motion.div>
+  );
+}
+
+/** The floating on-screen Remote in the corner of the TV page. */
+export default function Remote({
+  visible,
+  onToggle,
+  onCommand,
+  onLanguage,
+}: {
+  visible: boolean;
+  onToggle: () => void;
+  onCommand: (cmd: Command) => void;
+  onLanguage: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    // The Remote is a physical object: its D-pad keeps its layout in every language.
+    <div dir="ltr" className="fixed bottom-4 right-4 z-50">
+      <button
+        onClick={onToggle}
+        aria-expanded={visible}
+        aria-controls="tv-remote"
+        className="mb-2 inline-flex items-center gap-2 px-3 py-2 rounded-full bg-tv-panel/80 text-tv-panel-ink ring-1 ring-tv-panel-ink/20 backdrop-blur"
+      >
+        <GripHorizontal size={16} /> {t(visible ? "remote.hide" : "remote.show")}
+      </button>
+      <AnimatePresence>
+        {visible && <RemotePad id="tv-remote" className="w-56 shadow-2xl" onCommand={onCommand} onLanguage={onLanguage} />}
+      </AnimatePresence>
+    </div>
+  );
+}
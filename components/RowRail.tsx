@@ -0,0 +1,132 @@
+"use client";
+
+import React, { memo, useEffect, useRef } from "react";
+import { Heart } from "lucide-react";
+import { shouldFollowFocus } from "../lib/a11y";
+import { ACCENTS } from "../lib/accents";
+import { useI18n } from "../lib/i18n/context";
+import { TILE_SIZES } from "../lib/images";
+import { PREVIEW_DELAY, useDwell, usePageVisible, usePrefersReducedMotion } from "../lib/playback";
+import type { Item, Section } from "../lib/types";
+import { centredOffset, OVERSCAN, ROW, scrollToOffset, TILE, TILE_STRIDE, useVisibleRange } from "../lib/windowing";
+import Artwork from "./Artwork";
+
+// Room after the last tile, like the row's start padding.
+const RAIL_END = 24;
+
+/**
+ * One horizontal rail of channel tiles (an ARIA grid row). Used by the home
+ * screen and for search results; the parent supplies the enclosing grid.
+ * Tiles for items in `saved` (My List) carry a heart.
+ *
+ * The rail is windowed (lib/windowing.ts): only the tiles in view, a few
+ * either side and the focused one are mounted, each at its fixed position.
+ * In the home screen's windowed grid, `row` is the rail's place (passed back
+ * to the callbacks, so one callback serves every row) and `top` its fixed
+ * position; `initialScroll` and `onScrolled` keep each rail where it was
+ * across visits to a channel.
+ */
+function RowRail({
+  section,
+  active,
+  focusedCol,
+  onSelect,
+  saved,
+  row = -1,
+  top,
+  initialScroll,
+  onScrolled,
+}: {
+  section: Section;
+  active: boolean;
+  focusedCol: number;
+  onSelect: (col: number, row: number) => void;
+  saved?: ReadonlySet<Item>;
+  row?: number;
+  top?: number;
+  initialScroll?: number;
+  onScrolled?: (offset: number, row: number) => void;
+}) {
+  const { t } = useI18n();
+  const railRef = useRef<HTMLDivElement>(null);
+  const reduced = usePrefersReducedMotion();
+  const visible = usePageVisible();
+  const focusedItem = active ? section.items[focusedCol] : undefined;
+  const previewing = useDwell(focusedItem?.video && !reduced && visible ? focusedItem.id : null, PREVIEW_DELAY);
+
+  const count = section.items.length;
+  const width = Math.max(0, count * TILE_STRIDE - TILE.gap) + RAIL_END;
+  const [first, end] = useVisibleRange(railRef, "x", {
+    stride: TILE_STRIDE,
+    count,
+    overscan: OVERSCAN.tiles,
+    initial: initialScroll,
+    onScrolled: onScrolled && ((offset) => onScrolled(offset, row)),
+  });
+  const cols = Array.from({ length: end - first }, (_, i) => first + i);
+  // The focused tile is always mounted, so it can take DOM focus before the rail scrolls to it.
+  if (focusedItem && focusedCol < first) cols.unshift(focusedCol);
+  if (focusedItem && focusedCol >= end) cols.push(focusedCol);
+
+  // Roving tabindex: DOM focus follows the TV focus (see shouldFollowFocus).
+  // The rail glides to centre the focus, except when the row first appears.
+  // Only focus moves count; other re-renders leave the scroll alone.
+  const followed = useRef({ col: -1, settled: false });
+  useEffect(() => {
+    const rail = railRef.current;
+    const col = active ? focusedCol : -1;
+    if (!rail || col === followed.current.col) return;
+    followed.current.col = col;
+    if (col < 0) return;
+    scrollToOffset(rail, "x", centredOffset(col, TILE_STRIDE, TILE.width, rail.clientWidth, width), followed.current.settled && !reduced);
+    followed.current.settled = true;
+    if (shouldFollowFocus()) rail.querySelector<HTMLElement>(`[aria-colindex="${col + 1}"] button`)?.focus({ preventScroll: true });
+  });
+
+  return (
+    <div
+      role="row"
+      aria-rowindex={row >= 0 ? row + 1 : undefined}
+      className="px-6"
+      style={top === undefined ? undefined : { position: "absolute", top, insetInline: 0, height: ROW.height }}
+    >
+      <div className="flex items-center gap-3 mb-2">
+        <div role="rowheader" className={`text-sm font-medium text-white px-2 py-1 rounded bg-gradient-to-r ${ACCENTS[section.color]}`}>{section.label}</div>
+      </div>
+      <div ref={railRef} role="presentation" className="overflow-x-auto no-scrollbar">
+        <div role="presentation" className="relative" style={{ width, height: TILE.height }}>
+          {cols.map((idx) => {
+            const item = section.items[idx];
+            const focused = active && focusedCol === idx;
+            return (
+              <div role="gridcell" aria-colindex={idx + 1} key={item.id} className="absolute top-0" style={{ insetInlineStart: idx * TILE_STRIDE }}>
+                <button
+                  onClick={() => onSelect(idx, row)}
+                  tabIndex={focused ? 0 : -1}
+                  aria-label={[item.title, item.subtitle, t("tile.channel", { n: item.channel }), saved?.has(item) && t("channel.myList")].filter(Boolean).join(", ")}
+                  className={`relative w-56 h-36 rounded-xl overflow-hidden ring-2 transition-[transform,box-shadow] duration-200 hover:scale-[1.02] focus:outline-none ${
+                    focused ? "ring-tv-focus scale-[1.01]" : "ring-tv-ink/10"
+                  }`}
+                >
+                  <Artwork item={item} color={section.color} sizes={TILE_SIZES} />
+                  {previewing && item === focusedItem && (
+                    <video src={item.video} poster={item.poster ?? item.image} muted loop autoPlay playsInline aria-hidden className="absolute inset-0 w-full h-full object-cover" />
+                  )}
+                  <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-black/10" />
+                  <div className="absolute top-2 start-2 px-1.5 rounded bg-black/60 text-white/80 text-[10px] font-mono tabular-nums">{item.channel}</div>
+                  {saved?.has(item) && <Heart size={14} aria-hidden className="absolute top-2 end-2 text-white fill-current" />}
+                  <div className="absolute bottom-2 inset-x-2 text-start">
+                    <div className="text-white text-sm font-semibold line-clamp-1">{item.title}</div>
+                    {item.subtitle && <div className="text-white/80 text-xs line-clamp-1">{item.subtitle}</div>}
+                  </div>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default memo(RowRail);
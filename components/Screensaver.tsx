@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Tv } from "lucide-react";
+import { ACCENTS } from "../lib/accents";
+import { useI18n } from "../lib/i18n/context";
+import { usePrefersReducedMotion } from "../lib/playback";
+
+const COLORS = Object.values(ACCENTS);
+
+/** Logo speed in px per second. */
+const SPEED = 90;
+
+/**
+ * The TV's name drifting around the screen, changing colour at every wall it
+ * bounces off. Fills its (positioned) parent; sits still in the middle under
+ * reduced motion.
+ */
+export default function Screensaver() {
+  const { t } = useI18n();
+  const reduced = usePrefersReducedMotion();
+  const boxRef = useRef<HTMLDivElement>(null);
+  const logoRef = useRef<HTMLDivElement>(null);
+  const [color, setColor] = useState(0);
+
+  useEffect(() => {
+    const box = boxRef.current;
+    const logo = logoRef.current;
+    if (reduced || !box || !logo) return;
+    let x = Math.random() * Math.max(0, box.clientWidth - logo.offsetWidth);
+    let y = Math.random() * Math.max(0, box.clientHeight - logo.offsetHeight);
+    let dx = 1;
+    let dy = 1;
+    let last = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      // Long gaps (a background tab) shouldn't send the logo through a wall.
+      const dt = Math.min(now - last, 100) / 1000;
+      last = now;
+      const maxX = Math.max(0, box.clientWidth - logo.offsetWidth);
+      const maxY = Math.max(0, box.clientHeight - logo.offsetHeight);
+      x += dx * SPEED * dt;
+      y += dy * SPEED * dt;
+      let bounced = false;
+      if (x <= 0 || x >= maxX) {
+        dx = x <= 0 ? 1 : -1;
+        x = Math.min(Math.max(x, 0), maxX);
+        bounced = true;
+      }
+      if (y <= 0 || y >= maxY) {
+        dy = y <= 0 ? 1 : -1;
+        y = Math.min(Math.max(y, 0), maxY);
+        bounced = true;
+      }
+      if (bounced) setColor((c) => (c + 1) % COLORS.length);
+      logo.style.transform = `translate(${x}px, ${y}px)`;
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [reduced]);
+
+  return (
+    <div ref={boxRef} data-screensaver className="absolute inset-0 overflow-hidden bg-tv-screen">
+      <div
+        ref={logoRef}
+        className={`absolute flex items-center gap-2 rounded-xl bg-gradient-to-br px-4 py-2 text-xl font-bold text-white shadow-lg ${COLORS[color]} ${
+          reduced ? "left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2" : "left-0 top-0"
+        }`}
+      >
+        <Tv size={24} aria-hidden /> {t("home.title")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef } from "react";
+import { Delete, Search } from "lucide-react";
+import { shouldFollowFocus } from "../lib/a11y";
+import { useI18n } from "../lib/i18n/context";
+import { KEYBOARD, RESULTS_ROW, searchItems } from "../lib/search";
+import type { Focus, Section } from "../lib/types";
+import RowRail from "./RowRail";
+
+/**
+ * Search screen: a query field, a D-pad on-screen keyboard and a rail of
+ * results. Cursor moves come from the reducer; typing goes straight into the
+ * field, even while a key on the on-screen keyboard has focus.
+ */
+export default function SearchView({
+  sections,
+  query,
+  cursor,
+  onQuery,
+  onCursor,
+  onKey,
+  onSelect,
+}: {
+  sections: Section[];
+  query: string;
+  cursor: Focus;
+  onQuery: (query: string) => void;
+  onCursor: (cursor: Focus) => void;
+  onKey: (row: number, col: number) => void;
+  onSelect: (row: number, col: number) => void;
+}) {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const keysRef = useRef<HTMLDivElement>(null);
+  const hits = useMemo(() => searchItems(sections, query), [sections, query]);
+  const results = useMemo(
+    () => ({ key: "search", label: query ? t("search.resultsFor", { query }) : t("search.resultsRow"), color: "violet" as const, items: hits.map((h) => sections[h.row].items[h.col]) }),
+    [sections, query, hits, t],
+  );
+  const capLabel = (cap: string) =>
+    cap === "delete" ? <Delete size={16} aria-hidden className="rtl:-scale-x-100" /> : cap === "space" || cap === "clear" ? t(`search.${cap}`) : cap.toUpperCase();
+
+  // Start in the field so typing just works.
+  useEffect(() => inputRef.current?.focus({ preventScroll: true }), []);
+
+  // Roving tabindex on the keyboard; the results rail manages its own.
+  useEffect(() => {
+    if (cursor.row >= RESULTS_ROW || document.activeElement === inputRef.current || !shouldFollowFocus()) return;
+    keysRef.current?.querySelector<HTMLElement>(`[data-key="${cursor.row}-${cursor.col}"]`)?.focus({ preventScroll: true });
+  }, [cursor.row, cursor.col]);
+
+  // Printable keys (and Backspace) pressed on the on-screen keyboard go to the
+  // field. Runs in the capture phase so the TV key handler never sees them.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const input = inputRef.current;
+      if (!input || e.target === input || e.altKey || e.ctrlKey || e.metaKey) return;
+      if (!keysRef.current?.contains(e.target as Node)) return;
+      if (e.key.length !== 1 && e.key !== "Backspace") return;
+      if (e.key === " ") return; // Space presses the focused key
+      e.stopPropagation();
+      input.focus(); // the browser then types (or deletes) into the field
+    };
+    window.addEventListener("keydown", onKey, true);
+    return () => window.removeEventListener("keydown", onKey, true);
+  }, []);
+
+  const onFieldKey = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      inputRef.current?.blur();
+      keysRef.current?.querySelector<HTMLElement>(`[data-key="${Math.min(cursor.row, RESULTS_ROW - 1)}-${cursor.col}"]`)?.focus();
+    } else if (e.key === "Enter" && hits.length) {
+      e.preventDefault();
+      inputRef.current?.blur();
+      onCursor({ row: RESULTS_ROW, col: 0 });
+    } else if (e.key === "Escape") {
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col" role="region" aria-label={t("search.region")}>
+      <div className="flex items-center gap-3 px-6 pt-4 pb-2">
+        <Search size={18} className="text-tv-ink/70" aria-hidden />
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          onChange={(e) => onQuery(e.target.value)}
+          onKeyDown={onFieldKey}
+          placeholder={t("search.placeholder")}
+          aria-label={t("search.region")}
+          className="flex-1 rounded-lg bg-tv-ink/10 px-3 py-2 text-tv-ink ring-1 ring-tv-ink/20 placeholder:text-tv-ink/40 focus:outline-none focus:ring-2 focus:ring-tv-focus"
+        />
+        <div className="text-xs text-tv-ink/70">{query ? t("search.found", { n: hits.length }) : t("search.hint")}</div>
+      </div>
+
+      <div ref={keysRef} role="group" aria-label={t("search.keyboard")} className="mx-6 my-2 grid w-fit grid-cols-6 gap-1.5">
+        {KEYBOARD.map((keys, row) =>
+          keys.map((cap, col) => {
+            const focused = cursor.row === row && cursor.col === col;
+            return (
+              <button
+                key={cap}
+                data-key={`${row}-${col}`}
+                tabIndex={focused ? 0 : -1}
+                aria-label={cap === "delete" ? t("search.delete") : undefined}
+                onClick={() => onKey(row, col)}
+                className={`h-9 rounded-md text-sm font-medium ring-2 transition-colors focus:outline-none flex items-center justify-center ${
+                  cap.length > 1 ? "col-span-2" : "w-9"
+                } ${focused ? "bg-tv-ink text-tv-screen ring-tv-focus" : "bg-tv-ink/10 ring-transparent hover:bg-tv-ink/15"}`}
+              >
+                {capLabel(cap)}
+              </button>
+            );
+          }),
+        )}
+      </div>
+
+      <div className="flex-1 overflow-hidden pt-2">
+        {results.items.length > 0 ? (
+          <div role="grid" aria-label={t("search.results")}>
+            <RowRail
+              section={results}
+              active={cursor.row === RESULTS_ROW}
+              focusedCol={cursor.row === RESULTS_ROW ? cursor.col : -1}
+              onSelect={(col) => onSelect(hits[col].row, hits[col].col)}
+            />
+          </div>
+        ) : (
+          query.trim() && <div className="px-6 text-sm text-tv-ink/70">{t("search.none", { query })}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useEffect, useImperativeHandle, useRef } from "react";
+import { Check, Keyboard, RotateCcw, Smartphone } from "lucide-react";
+import { useI18n } from "../lib/i18n/context";
+import type { Command } from "../lib/navigation";
+import { THEME_PREFERENCES, type ThemePreference } from "../lib/theme";
+
+export type SettingsHandle = { command: (cmd: Command) => void };
+
+// Swatches preview each skin's bezel/screen without switching to it.
+const SWATCH: Record<ThemePreference, string> = {
+  system: "bg-gradient-to-r from-neutral-900 from-50% to-slate-100 to-50%",
+  crt: "bg-amber-900 ring-4 ring-inset ring-amber-950",
+  oled: "bg-black ring-1 ring-inset ring-neutral-700",
+  light: "bg-slate-100 ring-1 ring-inset ring-slate-300",
+};
+
+/**
+ * Settings channel: pick a TV skin, open the key-binding editor or phone
+ * pairing, or clear the personal rows. Like the
+ * detail overlay it owns the D-pad: arrows move DOM focus between options and
+ * OK activates the focused one; Back is handled by the reducer.
+ */
+export default function SettingsView({
+  theme,
+  onTheme,
+  onKeys,
+  onPair,
+  onClearHistory,
+  ref,
+}: {
+  theme: ThemePreference;
+  onTheme: (theme: ThemePreference) => void;
+  onKeys: () => void;
+  onPair: () => void;
+  onClearHistory: () => void;
+  ref?: React.Ref<SettingsHandle>;
+}) {
+  const { t } = useI18n();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const rows = () => Array.from(rootRef.current?.querySelectorAll<HTMLElement>("[data-settings-row]") ?? []).map((r) => Array.from(r.querySelectorAll("button")));
+
+  // Start on the current skin.
+  useEffect(() => {
+    rootRef.current?.querySelector<HTMLElement>("[aria-checked=true]")?.focus({ preventScroll: true });
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    command: (cmd) => {
+      const grid = rows();
+      let row = grid.findIndex((r) => r.includes(document.activeElement as HTMLButtonElement));
+      let col = row < 0 ? 0 : grid[row].indexOf(document.activeElement as HTMLButtonElement);
+      if (row < 0) row = 0;
+      if (cmd.type === "ok") return grid[row][col]?.click();
+      if (cmd.type === "up" || cmd.type === "down") row = Math.max(0, Math.min(grid.length - 1, row + (cmd.type === "down" ? 1 : -1)));
+      if (cmd.type === "left" || cmd.type === "right") col += cmd.type === "right" ? 1 : -1;
+      grid[row][Math.max(0, Math.min(grid[row].length - 1, col))]?.focus();
+    },
+  }));
+
+  return (
+    <div ref={rootRef} className="absolute inset-0 overflow-y-auto no-scrollbar p-6" role="region" aria-label={t("settings.title")}>
+      <div className="text-lg font-semibold">{t("settings.title")}</div>
+
+      <div className="mt-4 text-sm text-tv-ink/70" id="settings-theme">{t("settings.theme")}</div>
+      <div data-settings-row role="radiogroup" aria-labelledby="settings-theme" className="mt-2 flex flex-wrap gap-3">
+        {THEME_PREFERENCES.map((pref) => (
+          <button
+            key={pref}
+            role="radio"
+            aria-checked={theme === pref}
+            onClick={() => onTheme(pref)}
+            className="w-36 rounded-xl bg-tv-ink/5 p-2 text-start ring-2 ring-tv-ink/10 focus:outline-none focus:ring-tv-focus aria-checked:bg-tv-ink/15"
+          >
+            <div className={`h-16 rounded-lg ${SWATCH[pref]}`} />
+            <div className="mt-2 flex items-center justify-between text-sm font-medium">
+              {t(`theme.${pref}`)}
+              {theme === pref && <Check size={16} aria-hidden />}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="mt-6 text-sm text-tv-ink/70">{t("settings.controls")}</div>
+      <div data-settings-row className="mt-2 flex gap-3">
+        <button
+          onClick={onKeys}
+          className="px-3 py-2 rounded-lg bg-tv-ink/10 ring-2 ring-tv-ink/20 text-sm flex items-center gap-2 focus:outline-none focus:ring-tv-focus"
+        >
+          <Keyboard size={16} /> {t("settings.keys")}
+        </button>
+        <button
+          onClick={onPair}
+          className="px-3 py-2 rounded-lg bg-tv-ink/10 ring-2 ring-tv-ink/20 text-sm flex items-center gap-2 focus:outline-none focus:ring-tv-focus"
+        >
+          <Smartphone size={16} /> {t("settings.pair")}
+        </button>
+      </div>
+
+      <div className="mt-6 text-sm text-tv-ink/70">{t("settings.history")}</div>
+      <div data-settings-row className="mt-2 flex gap-3">
+        <button
+          onClick={onClearHistory}
+          className="px-3 py-2 rounded-lg bg-tv-ink/10 ring-2 ring-tv-ink/20 text-sm flex items-center gap-2 focus:outline-none focus:ring-tv-focus"
+        >
+          <RotateCcw size={16} /> {t("settings.clearHistory")}
+        </button>
+      </div>
+    </div>
+  );
+}
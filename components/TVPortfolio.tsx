@@ -1,498 +1,467 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { House, ArrowLeft, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, CirclePlay, GripHorizontal } from "lucide-react";
+import Link from "next/link";
+import { findChannel, maxDigits } from "../lib/channels";
+import { SLUG } from "../lib/content/schema";
+import { localizeSections } from "../lib/i18n/content";
+import { I18nContext, i18nFor } from "../lib/i18n/context";
+import { DEFAULT_LOCALE, LOCALES, localeFromSearch, withLocale, type Locale } from "../lib/i18n/locales";
+import { useViewingStats } from "../lib/analytics/client";
+import { neighborImages, preloadImages, TILE_SIZES } from "../lib/images";
+import type { NavSource } from "../lib/analytics/events";
+import { useChannelEntry } from "../lib/input/channelEntry";
+import { DEFAULT_KIOSK, kioskFromSearch, useIdle, withKiosk, type KioskOptions } from "../lib/kiosk";
+import { DEFAULT_BINDINGS, loadBindings, saveBindings, type KeyBindings } from "../lib/input/keyboard";
+import { useInput } from "../lib/input/useInput";
+import { isPlayback, mirrorCommand, reduce, type Command } from "../lib/navigation";
+import { buildShelves, currentItem, refocus, shelfRow } from "../lib/personal/shelves";
+import { addRecent, itemRef, NO_HISTORY, toggleFavorite } from "../lib/personal/storage";
+import { usePersonal } from "../lib/personal/usePersonal";
+import { useServiceWorker } from "../lib/pwa/useServiceWorker";
+import { usePairing } from "../lib/remote/pairing";
+import { HOME_STATE, listFromSearch, parseHash, parsePath, pathFromState } from "../lib/routes";
+import { KEYBOARD, pressKey } from "../lib/search";
+import { useTheme } from "../lib/useTheme";
+import type { Item, Section, ViewState } from "../lib/types";
+import AttractMode from "./AttractMode";
+import ChannelBanner, { BANNER_MS, type BannerInfo } from "./ChannelBanner";
+import ChannelView from "./ChannelView";
+import type { PlayerHandle } from "./ChannelVideo";
+import DetailOverlay, { type DetailHandle } from "./DetailOverlay";
+import GuideView from "./GuideView";
+import HomeGrid, { type HomeScroll } from "./HomeGrid";
+import KeyBindingsPanel from "./KeyBindingsPanel";
+import PairingPanel, { PairingBadge } from "./PairingPanel";
+import Remote from "./Remote";
+import SearchView from "./SearchView";
+import SettingsView, { type SettingsHandle } from "./SettingsView";
+import TvBezel from "./TvBezel";
+import UpdatePrompt from "./UpdatePrompt";
 
 /**
  * TV Portfolio – single-file React component
  * ------------------------------------------------------
  * Features
  * - Home screen that mimics a TV UI with horizontal rows (About, Experience, Projects, Hobbies)
- * - Keyboard navigation (arrow keys + Enter/Backspace)
+ * - Home screen is an ARIA grid with roving tabindex; channel changes are announced via a live region
+ * - Keyboard (rebindable), gamepad and touch-swipe navigation via lib/input, all reduced by lib/navigation
  * - On-screen Remote that also controls navigation (Home, Back, D-pad, OK)
+ * - Phone remote: pair from Settings (QR / short code), then /remote on a phone relays its buttons (lib/remote)
  * - Channel view that shows a specific item; left/right to "channel surf" items
- * - URL hash sync so back/forward works (#home or #section=itemIndex)
+ * - Optional video: muted preview on a focused tile, full-screen clip in ChannelView (K/M/J/L or Remote)
+ * - View Details / OK opens a detail overlay (Markdown body, links, media) at /section/itemId/details
+ * - Program guide (EPG) grid of dated items: Guide button or G
+ * - Search (/ or the Remote): on-screen keyboard or typing, fuzzy matches across all items, query kept in /search?q=
+ * - Channel numbers: type digits to tune, CH+/CH− (PageUp/PageDown) surf across sections
+ * - Settings channel (Remote gear or /settings): TV skins (CRT, OLED, light; lib/theme.ts) and key bindings
+ * - Languages (Remote language button or ?lang=): translated content and UI chrome via lib/i18n; RTL locales mirror left/right
+ * - URL path sync so back/forward works (/, /guide, /search?q=…, /section/itemId); old #section=itemId links redirect
+ * - Content comes in as props, loaded from content/ by lib/content/load.ts
+ * - Anonymous viewing stats (lib/analytics): channel opens, dwell, input used, drop-off; off under Do Not Track
+ * - Installable and offline-capable (lib/pwa): a service worker saves every channel; a prompt offers new content
+ * - Attract mode for booths (lib/kiosk.ts): with ?kiosk=1, surfs every channel by itself when idle, then a screensaver
+ * - Printable résumé at /resume (footer link) and JSON Resume at /resume.json, from the same content (lib/resume)
+ * - Personal rows above the sections (lib/personal): Continue Watching, My List (F / heart) and Because you viewed…
+ * - Windowed home grid (lib/windowing.ts) for catalogs of thousands of items; held arrows accelerate (lib/input/repeat.ts)
  */
 
+// -------------------- Main Component --------------------
 
-type Item = {
-  id: string;
-  title: string;
-  subtitle?: string;
-  image?: string; // /public images or remote URLs
-  description?: string;
-};
-
-type Section = {
-  key: string; // used in URL hash
-  label: string;
-  color: string; // tailwind bg color accent
-  items: Item[];
-};
-
-const SECTIONS: Section[] = [
-  {
-    key: "about",
-    label: "About Me",
-    color: "from-blue-500 to-cyan-400",
-    items: [
-      {
-        id: "intro",
-        title: "Who I Am",
-        subtitle: "CS @ UC Davis | SWE/ML",
-        image: "https://images.unsplash.com/photo-1527689368864-3a821dbccc34?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "I'm Ayaan, a CS major focused on SWE/ML. I build production web apps, AI-powered tools, and data systems. I love turning messy problems into crisp, shippable products.",
-      },
-      {
-        id: "strengths",
-        title: "Strengths",
-        subtitle: "Systems, ML, Product Sense",
-        image: "https://images.unsplash.com/photo-1522075469751-3a6694fb2f61?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Strong in full-stack (Next.js, Python), NLP (spaCy, transformers), and distributed/data tooling. I care a lot about DX, reliability, and UX polish.",
-      },
-    ],
-  },
-  {
-    key: "experience",
-    label: "Work Experience",
-    color: "from-fuchsia-500 to-pink-400",
-    items: [
-      {
-        id: "kaiser",
-        title: "AI/ML SWE Intern – Kaiser",
-        subtitle: "SIG parser (NLP)",
-        image: "https://images.unsplash.com/photo-1582719478250-c89cae4dc85b?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Built a high-accuracy prescription SIG parser using a hybrid pipeline (regex + NER + LLM), hitting 99%+ structured extraction on internal datasets.",
-      },
-      {
-        id: "medusa",
-        title: "Medusa Privacy",
-        subtitle: "Blockchain privacy analytics",
-        image: "https://images.unsplash.com/photo-1649972904349-6b0b4b2f0b98?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Contributed to privacy scoring pipelines and E2E encryption flows balancing on-chain analysis with compliance needs.",
-      },
-    ],
-  },
-  {
-    key: "projects",
-    label: "Projects",
-    color: "from-emerald-500 to-lime-400",
-    items: [
-      {
-        id: "intern-hub",
-        title: "Intern Hub",
-        subtitle: "Next.js + RAG Agent",
-        image: "https://images.unsplash.com/photo-1460925895917-afdab827c52f?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Full‑stack onboarding app with checklist, manager posts, and a RAG agent answering real-time onboarding questions.",
-      },
-      {
-        id: "sig-parser",
-        title: "SIG Parser",
-        subtitle: "spaCy + CRF + LLM",
-        image: "https://images.unsplash.com/photo-1551190822-a9333d879b1f?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Chained parsing architecture for complex medication instructions with robust synonym mapping and confidence scoring.",
-      },
-      {
-        id: "advise-me",
-      	 title: "Advise.me",
-        subtitle: "HackDavis – agent hub",
-        image: "https://images.unsplash.com/photo-1526379095098-d400fd0bf935?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "AI agents for professional advice with pluggable models and prompt-engineered personas; open source friendly design.",
-      },
-    ],
-  },
-  {
-    key: "hobbies",
-    label: "Hobbies",
-    color: "from-orange-500 to-amber-400",
-    items: [
-      {
-        id: "soccer-analytics",
-        title: "Soccer Analytics",
-        subtitle: "CV + tracking",
-        image: "https://images.unsplash.com/photo-1518600506278-4e8ef466b810?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Working on player tracking and playstyle classification from overhead video; experimenting with homography and event detection.",
-      },
-      {
-        id: "reading",
-        title: "Reading",
-        subtitle: "Tech + product",
-        image: "https://images.unsplash.com/photo-1519681393784-d120267933ba?q=80&w=1200&auto=format&fit=crop",
-        description:
-          "Nonfiction on engineering culture, systems, and creative process. Always looking for pragmatic ideas to ship faster.",
-      },
-    ],
-  },
-];
-
-// -------------------- Helpers --------------------
-
-const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
-
-type Focus = { row: number; col: number };
-
-type ViewState =
-  | { mode: "home"; focus: Focus }
-  | { mode: "channel"; row: number; col: number };
-
-function hashFromState(state: ViewState) {
-  if (state.mode === "home") return "#home";
-  const section = SECTIONS[state.row];
-  const item = section.items[state.col];
-  return `#${section.key}=${item.id}`;
-}
-
-function parseHash(): ViewState | null {
-  const h = (typeof window !== "undefined" ? window.location.hash : "").replace("#", "");
-  if (!h || h === "home") return { mode: "home", focus: { row: 0, col: 0 } };
-  const [key, id] = h.split("=");
-  const row = SECTIONS.findIndex((s) => s.key === key);
-  if (row < 0) return null;
-  const col = SECTIONS[row].items.findIndex((i) => i.id === id);
-  if (col < 0) return null;
-  return { mode: "channel", row, col };
-}
-
-// -------------------- Components --------------------
-
-function TvBezel({ children }: { children: React.ReactNode }) {
-  return (
-    <div className="relative mx-auto w-full max-w-6xl aspect-[16/9] rounded-3xl bg-neutral-900 shadow-2xl ring-8 ring-black">
-      {/* Screen */}
-      <div className="absolute inset-3 rounded-2xl overflow-hidden bg-black">{children}</div>
-      {/* Stand */}
-      <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 h-6 w-40 rounded-b-2xl bg-neutral-800 shadow-xl" />
-    </div>
-  );
-}
-
-function RowRail({
-  section,
-  active,
-  focusedCol,
-  onSelect,
+// `sandbox` (the /bench page) leaves the URL, viewing stats, attract mode and saved history alone.
+export default function TVPortfolio({
+  sections: content,
+  initial = HOME_STATE,
+  sandbox = false,
 }: {
-  section: Section;
-  active: boolean;
-  focusedCol: number;
-  onSelect: (col: number) => void;
+  sections: Section[];
+  initial?: ViewState;
+  sandbox?: boolean;
 }) {
-  const railRef = useRef<HTMLDivElement>(null);
+  // Static pages can't see ?list= (the personal row a channel was opened
+  // from). It only steers Back, so taking it before hydration changes no markup.
+  const [state, setState] = useState<ViewState>(() => {
+    const list = typeof window === "undefined" ? undefined : listFromSearch(window.location.search);
+    return list && "row" in initial ? { ...initial, list } : initial;
+  });
+  const [remoteOpen, setRemoteOpen] = useState(true);
 
+  // Pages are static and rendered in the default locale; ?lang= is applied on mount.
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const sections = useMemo(() => localizeSections(content, locale), [content, locale]);
+  const i18n = useMemo(() => i18nFor(locale), [locale]);
+  const { t, dir } = i18n;
   useEffect(() => {
-    if (!active || !railRef.current) return;
-    const child = railRef.current.children[focusedCol] as HTMLElement | undefined;
-    if (child) child.scrollIntoView({ behavior: "smooth", inline: "center", block: "nearest" });
-  }, [active, focusedCol]);
-
-  return (
-    <div className="px-6">
-      <div className="flex items-center gap-3 mb-2">
-        <div className={`text-sm font-medium text-white/90 px-2 py-1 rounded bg-gradient-to-r ${section.color}`}>{section.label}</div>
-      </div>
-      <div ref={railRef} className="flex gap-4 overflow-x-auto no-scrollbar pr-6">
-        {section.items.map((item, idx) => (
-          <motion.button
-            key={item.id}
-            onClick={() => onSelect(idx)}
-            initial={{ opacity: 0, y: 8 }}
-            animate={{ opacity: 1, y: 0 }}
-            whileHover={{ scale: 1.02 }}
-            className={`relative shrink-0 w-56 h-36 rounded-xl overflow-hidden ring-2 transition-all ${
-              active && focusedCol === idx ? "ring-white scale-[1.01]" : "ring-white/10"
-            }`}
-          >
-            <img
-              src={item.image}
-              alt={item.title}
-              className="w-full h-full object-cover"
-            />
-            <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-black/10" />
-            <div className="absolute bottom-2 left-2 right-2 text-left">
-              <div className="text-white text-sm font-semibold line-clamp-1">{item.title}</div>
-              {item.subtitle && (
-                <div className="text-white/80 text-xs line-clamp-1">{item.subtitle}</div>
-              )}
-            </div>
-          </motion.button>
-        ))}
-      </div>
-    </div>
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+  // Announcements go out in the current language, but switching it announces nothing.
+  const latestT = useRef(t);
+  useEffect(() => {
+    latestT.current = t;
+  });
+
+  const stats = useViewingStats(sections, state, !sandbox);
+
+  // Personal rows: computed from this visitor's history, drawn above the sections.
+  const [personal, updatePersonal] = usePersonal(!sandbox);
+  const shelves = useMemo(() => buildShelves(sections, personal), [sections, personal]);
+  const rows = useMemo(
+    () => [
+      ...shelves.map((shelf) => {
+        const seed = shelf.seed && sections[shelf.seed.row].items[shelf.seed.col];
+        return shelfRow(shelf, sections, t(`shelf.${shelf.key}`, { title: seed?.title ?? "" }));
+      }),
+      ...sections,
+    ],
+    [shelves, sections, t],
   );
-}
-
-function ChannelView({ row, col, onExit, setCol }: { row: number; col: number; onExit: () => void; setCol: (c: number) => void }) {
-  const section = SECTIONS[row];
-  const item = section.items[col];
-  const total = section.items.length;
-
-  return (
-    <div className="relative h-full w-full">
-      <img src={item.image} alt={item.title} className="absolute inset-0 w-full h-full object-cover" />
-      <div className="absolute inset-0 bg-gradient-to-t from-black via-black/40 to-black/20" />
-
-      <div className="absolute bottom-0 left-0 right-0 p-6 grid md:grid-cols-[1fr_auto] gap-4 items-end">
-        <div>
-          <div className="text-white/90 text-xs uppercase tracking-wider">{SECTIONS[row].label}</div>
-          <h1 className="text-2xl md:text-3xl font-bold text-white">{item.title}</h1>
-          {item.subtitle && <div className="text-white/80">{item.subtitle}</div>}
-          {item.description && (
-            <p className="mt-3 text-white/90 max-w-2xl leading-relaxed">{item.description}</p>
-          )}
-          <div className="mt-4 flex gap-2">
-            <button onClick={onExit} className="px-3 py-2 rounded-lg bg-white text-black text-sm font-medium flex items-center gap-2">
-              <ArrowLeft size={16} /> Back
-            </button>
-            <button className="px-3 py-2 rounded-lg bg-white/10 text-white text-sm font-medium flex items-center gap-2 ring-1 ring-white/20">
-              <CirclePlay size={16} /> View Details
-            </button>
-          </div>
-        </div>
-        <div className="flex items-center gap-2 justify-end">
-          <button
-            onClick={() => setCol(clamp(col - 1, 0, total - 1))}
-            className="p-2 rounded-full bg-white/10 ring-1 ring-white/20 text-white"
-            aria-label="Previous"
-          >
-            <ChevronLeft />
-          </button>
-          <div className="text-white/80 text-sm">{col + 1} / {total}</div>
-          <button
-            onClick={() => setCol(clamp(col + 1, 0, total - 1))}
-            className="p-2 rounded-full bg-white/10 ring-1 ring-white/20 text-white"
-            aria-label="Next"
-          >
-            <ChevronRight />
-          </button>
-        </div>
-      </div>
-    </div>
+  const saved = useMemo(
+    () => new Set<Item>(shelves.find((s) => s.key === "my-list")?.items.map(({ row, col }) => sections[row].items[col])),
+    [shelves, sections],
   );
-}
-
-function Remote({
-  visible,
-  onToggle,
-  onHome,
-  onBack,
-  onArrow,
-  onOk,
-  onNumber,
-}: {
-  visible: boolean;
-  onToggle: () => void;
-  onHome: () => void;
-  onBack: () => void;
-  onArrow: (dir: "up" | "down" | "left" | "right") => void;
-  onOk: () => void;
-  onNumber: (n: number) => void;
-}) {
-  return (
-    <div className="fixed bottom-4 right-4 z-50">
-      <button
-        onClick={onToggle}
-        className="mb-2 inline-flex items-center gap-2 px-3 py-2 rounded-full bg-black/70 text-white ring-1 ring-white/20 backdrop-blur"
-      >
-        <GripHorizontal size={16} /> {visible ? "Hide Remote" : "Show Remote"}
-      </button>
-      <AnimatePresence>
-        {visible && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 20 }}
-            className="w-56 rounded-2xl bg-neutral-900 text-white p-4 shadow-2xl ring-1 ring-white/10"
-          >
-            <div className="grid grid-cols-3 gap-2">
-              <button onClick={onHome} className="col-span-1 px-3 py-2 rounded-lg bg-white/10 ring-1 ring-white/20 flex items-center justify-center gap-2"><House size={16}/>Home</button>
-              <div />
-              <button onClick={onBack} className="col-span-1 px-3 py-2 rounded-lg bg-white/10 ring-1 ring-white/20 flex items-center justify-center gap-2"><ArrowLeft size={16}/>Back</button>
-
-              <div />
-              <button onClick={() => onArrow("up")} className="px-3 py-2 rounded-lg bg-white/10 ring-1 ring-white/20 flex items-center justify-center"><ChevronUp/></button>
-              <div />
-
-              <button onClick={() => onArrow("left")} className="px-3 py-2 rounded-lg bg-white/10 ring-1 ring-white/20 flex items-center justify-center"><ChevronLeft/></button>
-              <button onClick={onOk} className="px-3 py-2 rounded-lg bg-gradient-to-r from-indigo-500 to-sky-500 font-semibold">OK</button>
-              <button onClick={() => onArrow("right")} className="px-3 py-2 rounded-lg bg-white/10 ring-1 ring-white/20 flex items-center justify-center"><ChevronRight/></button>
 
-              <div />
-              <button onClick={() => onArrow("down")} className="px-3 py-2 rounded-lg bg-white/10 ring-1 ring-white/20 flex items-center justify-center"><ChevronDown/></button>
-              <div />
-            </div>
-            <div className="mt-3 grid grid-cols-3 gap-2 text-sm">
-              {[1,2,3,4,5,6,7,8,9].map(n => (
-                <button key={n} onClick={() => onNumber(n)} className="py-2 rounded-lg bg-white/5 ring-1 ring-white/10">{n}</button>
-              ))}
-              <div />
-              <button onClick={() => onNumber(0)} className="py-2 rounded-lg bg-white/5 ring-1 ring-white/10">0</button>
-              <div />
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </div>
-  );
-}
-
-// -------------------- Main Component --------------------
-
-export default function TVPortfolio() {
-  const [state, setState] = useState<ViewState>({ mode: "home", focus: { row: 0, col: 0 } });
-  const [remoteOpen, setRemoteOpen] = useState(true);
+  // Attract mode options come from the URL the display was opened with, and
+  // its kiosk parameters stay in the URL as the path changes.
+  const [kiosk, setKiosk] = useState<KioskOptions>(DEFAULT_KIOSK);
+  const kioskSearch = useRef("");
+  useEffect(() => {
+    kioskSearch.current = window.location.search;
+    setKiosk(kioskFromSearch(window.location.search));
+  }, []);
 
-  // Sync URL hash <-> state
+  // Sync URL path <-> state. pushState keeps this component mounted, so
+  // channel changes animate instead of doing a full route transition.
   useEffect(() => {
-    const fromHash = parseHash();
-    if (fromHash) setState(fromHash);
+    if (sandbox) return;
+    const fromUrl = localeFromSearch(window.location.search);
+    setLocale(fromUrl);
+    if (window.location.hash) {
+      const fromHash = parseHash(content, window.location.hash);
+      if (fromHash) {
+        history.replaceState(null, "", withKiosk(withLocale(pathFromState(content, fromHash), fromUrl), window.location.search));
+        stats.attribute("link");
+        setState(fromHash);
+      } else {
+        // Maybe a renamed item: its old path redirects (lib/content/redirects.ts).
+        const [key, id] = window.location.hash.slice(1).split("=");
+        if (SLUG.test(key) && SLUG.test(id ?? "")) window.location.replace(withLocale(`/${key}/${id}`, fromUrl));
+      }
+    }
     const onPop = () => {
-      const s = parseHash();
+      const s = parsePath(content, window.location.pathname, window.location.search);
+      stats.attribute("history");
       if (s) setState(s);
+      setLocale(localeFromSearch(window.location.search));
     };
     window.addEventListener("popstate", onPop);
     return () => window.removeEventListener("popstate", onPop);
-  }, []);
+  }, [content, stats, sandbox]);
 
+  const syncedState = useRef(state);
   useEffect(() => {
-    const hash = hashFromState(state);
-    if (window.location.hash !== hash) {
-      history.pushState(null, "", hash);
+    if (sandbox) return;
+    const path = withKiosk(withLocale(pathFromState(content, state), locale), kioskSearch.current);
+    const changed = syncedState.current !== state;
+    syncedState.current = state;
+    if (window.location.pathname + window.location.search === path) return;
+    // Typing refines the current search, and switching language re-labels the
+    // current page, rather than adding a history entry each.
+    if (!changed || (state.mode === "search" && window.location.pathname === "/search")) history.replaceState(null, "", path);
+    else history.pushState(null, "", path);
+  }, [content, state, locale, sandbox]);
+
+  const openTile = useCallback(
+    (row: number, col: number) => setState(reduce(sections, { mode: "home", focus: { row, col } }, { type: "ok" }, shelves)),
+    [sections, shelves],
+  );
+  // The home screen unmounts while a channel is open; this keeps its rows where they were.
+  const homeScroll = useRef<HomeScroll>({ top: 0, rails: new Map() });
+
+  // Input: every source funnels into the same pure reducer.
+  const screenRef = useRef<HTMLDivElement>(null);
+  const [bindings, setBindings] = useState<KeyBindings>(DEFAULT_BINDINGS);
+  const [keysOpen, setKeysOpen] = useState(false);
+  useEffect(() => setBindings(loadBindings()), []);
+  const [theme, setTheme] = useTheme();
+  const pairing = usePairing();
+  const serviceWorker = useServiceWorker();
+  const [pairOpen, setPairOpen] = useState(false);
+  const [idle, wake] = useIdle(kiosk.idleMs, kiosk.enabled && !sandbox);
+  useEffect(() => stats.idle(idle), [stats, idle]);
+
+  // Channel banner + digit entry
+  const [banner, setBanner] = useState<BannerInfo | null>(null);
+  const bannerTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const flashBanner = useCallback((info: BannerInfo) => {
+    clearTimeout(bannerTimer.current);
+    setBanner(info);
+    bannerTimer.current = setTimeout(() => setBanner(null), BANNER_MS);
+  }, []);
+  useEffect(() => () => clearTimeout(bannerTimer.current), []);
+
+  // Screen-reader announcements for channel and mode changes (polite live region)
+  const [announcement, setAnnouncement] = useState("");
+
+  const digitLimit = useMemo(() => maxDigits(sections), [sections]);
+  const { digits, push: pushDigit, commit: commitDigits } = useChannelEntry((channel) => {
+    if (findChannel(sections, channel)) setState((s) => reduce(sections, s, { type: "tune", channel }));
+    else {
+      flashBanner({ kind: "missing", channel });
+      setAnnouncement(t("announce.missing", { n: channel }));
     }
-  }, [state]);
+  }, digitLimit);
 
-  const setFocus = (f: Focus) => setState({ mode: "home", focus: f });
-  const openChannel = (row: number, col: number) => setState({ mode: "channel", row, col });
+  const tunedRow = "row" in state ? state.row : -1;
+  const tunedCol = "col" in state ? state.col : -1;
+  useEffect(() => {
+    if (tunedRow < 0) return;
+    const section = sections[tunedRow];
+    const item = section.items[tunedCol];
+    flashBanner({ kind: "tuned", channel: item.channel, label: section.label, title: item.title, color: section.color });
+    setAnnouncement(t("announce.channel", { n: item.channel, title: item.title, label: section.label }));
+  }, [sections, tunedRow, tunedCol, flashBanner, t]);
+
+  // Every channel opened goes to the front of Continue Watching.
+  useEffect(() => {
+    if (tunedRow >= 0) updatePersonal((p) => addRecent(p, itemRef(content, { row: tunedRow, col: tunedCol })));
+  }, [content, tunedRow, tunedCol, updatePersonal]);
 
-  // Keyboard controls
+  // Warm the tiles one move away from the home focus.
+  const homeRow = state.mode === "home" ? state.focus.row : -1;
+  const homeCol = state.mode === "home" ? state.focus.col : -1;
   useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      if (state.mode === "home") {
-        const { row, col } = state.focus;
-        if (["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight", "Enter", " ", "Backspace"].includes(e.key)) {
-          e.preventDefault();
-        }
-        if (e.key === "ArrowUp") setFocus({ row: clamp(row - 1, 0, SECTIONS.length - 1), col: 0 });
-        if (e.key === "ArrowDown") setFocus({ row: clamp(row + 1, 0, SECTIONS.length - 1), col: 0 });
-        if (e.key === "ArrowLeft") setFocus({ row, col: clamp(col - 1, 0, SECTIONS[row].items.length - 1) });
-        if (e.key === "ArrowRight") setFocus({ row, col: clamp(col + 1, 0, SECTIONS[row].items.length - 1) });
-        if (e.key === "Enter" || e.key === " ") openChannel(row, col);
-      } else if (state.mode === "channel") {
-        if (["ArrowLeft", "ArrowRight", "Backspace", "Escape"].includes(e.key)) e.preventDefault();
-        if (e.key === "ArrowLeft") setState({ ...state, col: clamp(state.col - 1, 0, SECTIONS[state.row].items.length - 1) });
-        if (e.key === "ArrowRight") setState({ ...state, col: clamp(state.col + 1, 0, SECTIONS[state.row].items.length - 1) });
-        if (e.key === "Backspace" || e.key === "Escape") setState({ mode: "home", focus: { row: state.row, col: state.col } });
-      }
-    };
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [state]);
+    if (homeRow >= 0) preloadImages(neighborImages(rows, homeRow, homeCol, true), TILE_SIZES);
+  }, [rows, homeRow, homeCol]);
 
-  // Remote handlers
-  const remoteHandlers = useMemo(() => ({
-    onHome: () => setState({ mode: "home", focus: { row: 0, col: 0 } }),
-    onBack: () => {
-      if (state.mode === "channel") setState({ mode: "home", focus: { row: state.row, col: state.col } });
-    },
-    onArrow: (dir: "up" | "down" | "left" | "right") => {
-      if (state.mode === "home") {
-        const { row, col } = state.focus;
-        if (dir === "up") setFocus({ row: clamp(row - 1, 0, SECTIONS.length - 1), col: 0 });
-        if (dir === "down") setFocus({ row: clamp(row + 1, 0, SECTIONS.length - 1), col: 0 });
-        if (dir === "left") setFocus({ row, col: clamp(col - 1, 0, SECTIONS[row].items.length - 1) });
-        if (dir === "right") setFocus({ row, col: clamp(col + 1, 0, SECTIONS[row].items.length - 1) });
-      } else {
-        if (dir === "left") setState({ ...state, col: clamp(state.col - 1, 0, SECTIONS[state.row].items.length - 1) });
-        if (dir === "right") setState({ ...state, col: clamp(state.col + 1, 0, SECTIONS[state.row].items.length - 1) });
-        if (dir === "up") setState({ mode: "home", focus: { row: state.row, col: state.col } });
-        if (dir === "down") {/* no-op */}
+  const firstMode = useRef(true);
+  useEffect(() => {
+    // Nothing to announce on first paint; the page title covers it.
+    if (firstMode.current) {
+      firstMode.current = false;
+      return;
+    }
+    if (state.mode !== "channel") setAnnouncement(latestT.current(`announce.${state.mode}`));
+  }, [state.mode]);
+
+  // The detail overlay and settings own the D-pad (scrolling, link/option focus) while open.
+  const detailRef = useRef<DetailHandle>(null);
+  const settingsRef = useRef<SettingsHandle>(null);
+  const playerRef = useRef<PlayerHandle>(null);
+  const mode = state.mode;
+
+  const dispatch = useCallback(
+    (cmd: Command, source: NavSource = "remote") => {
+      // Gamepad and phone input count as activity too; the press that ends attract mode does nothing else.
+      wake();
+      if (idle) return;
+      // The guide is a timeline and stays left-to-right in every locale.
+      if (dir === "rtl" && mode !== "guide") cmd = mirrorCommand(cmd);
+      if (cmd.type === "number") {
+        stats.attribute(source); // for the tune once the number is complete
+        return pushDigit(cmd.n);
       }
+      if (cmd.type === "ok" && digits) {
+        stats.attribute(source);
+        return commitDigits();
+      }
+      if (mode === "detail" && ["up", "down", "left", "right", "ok"].includes(cmd.type)) return detailRef.current?.command(cmd);
+      if (mode === "settings" && ["up", "down", "left", "right", "ok"].includes(cmd.type)) return settingsRef.current?.command(cmd);
+      if (isPlayback(cmd)) return mode === "channel" ? playerRef.current?.command(cmd.type) : undefined;
+      if (cmd.type === "favorite") {
+        const at = currentItem(sections, state, shelves);
+        if (!at) return;
+        const ref = itemRef(content, at);
+        updatePersonal((p) => toggleFavorite(p, ref));
+        if (state.mode === "home") {
+          const after = buildShelves(sections, toggleFavorite(personal, ref));
+          setState({ mode: "home", focus: refocus(shelves, after, state.focus) });
+        }
+        const title = sections[at.row].items[at.col].title;
+        return setAnnouncement(t(personal.favorites.includes(ref) ? "announce.listRemoved" : "announce.listAdded", { title }));
+      }
+      stats.attribute(source);
+      setState((s) => reduce(sections, s, cmd, shelves));
     },
-    onOk: () => {
-      if (state.mode === "home") openChannel(state.focus.row, state.focus.col);
-    },
-    onNumber: (n: number) => {
-      // Map 1..4 to sections
-      if (n >= 1 && n <= SECTIONS.length) setFocus({ row: n - 1, col: 0 });
-    },
-  }), [state]);
+    [content, sections, shelves, state, personal, updatePersonal, t, pushDigit, commitDigits, digits, mode, dir, stats, idle, wake],
+  );
+  useInput(dispatch, { bindings, swipeTarget: screenRef, relay: pairing.feed, enabled: !keysOpen && !pairOpen });
+
+  // A paired phone replaces the on-screen Remote; it comes back if the phone goes away.
+  const phoneConnected = pairing.status === "connected";
+  const wasConnected = useRef(false);
+  useEffect(() => {
+    if (phoneConnected === wasConnected.current) return;
+    wasConnected.current = phoneConnected;
+    if (phoneConnected) setPairOpen(false);
+    setRemoteOpen(!phoneConnected);
+    setAnnouncement(latestT.current(phoneConnected ? "announce.paired" : "announce.unpaired"));
+  }, [phoneConnected]);
 
   return (
-    <div className="min-h-screen w-full bg-neutral-950 text-white selection:bg-sky-500/40">
-      <div className="py-10 flex justify-center">
-        <TvBezel>
-          {/* Screen Content */}
-          <div className="h-full w-full relative">
-            <AnimatePresence mode="wait">
-              {state.mode === "home" ? (
-                <motion.div
-                  key="home"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  className="absolute inset-0 overflow-hidden"
-                >
-                  {/* Faux TV header */}
-                  <div className="flex items-center justify-between px-6 pt-4 pb-2 bg-gradient-to-b from-black/40 to-transparent">
-                    <div className="text-lg font-semibold">Ayaan TV</div>
-                    <div className="text-xs text-white/70">Use arrows / remote · Enter to open</div>
-                  </div>
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen w-full bg-tv-page text-tv-page-ink selection:bg-sky-500/40">
+        <div className="py-10 flex justify-center">
+          <TvBezel screenRef={screenRef}>
+            {/* Screen Content */}
+            <div className="h-full w-full relative">
+              <ChannelBanner info={digits ? { kind: "entry", digits } : banner} />
+              <AnimatePresence mode="wait">
+                {state.mode === "home" ? (
+                  <motion.div
+                    key="home"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 overflow-hidden flex flex-col"
+                  >
+                    {/* Faux TV header */}
+                    <div className="flex items-center justify-between px-6 pt-4 pb-2 bg-gradient-to-b from-tv-screen/40 to-transparent">
+                      <div className="text-lg font-semibold">{t("home.title")}</div>
+                      <div className="text-xs text-tv-ink/70">{t("home.hint")}</div>
+                    </div>
+
+                    <HomeGrid rows={rows} shelfCount={shelves.length} focus={state.focus} onSelect={openTile} saved={saved} scroll={homeScroll.current} />
+                  </motion.div>
+                ) : state.mode === "guide" ? (
+                  <motion.div
+                    key="guide"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0"
+                  >
+                    <GuideView
+                      sections={sections}
+                      focus={state.focus}
+                      onSelect={(row, col) => setState({ mode: "channel", row, col, from: "guide" })}
+                    />
+                  </motion.div>
+                ) : state.mode === "settings" ? (
+                  <motion.div
+                    key="settings"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0"
+                  >
+                    <SettingsView
+                      ref={settingsRef}
+                      theme={theme}
+                      onTheme={setTheme}
+                      onKeys={() => setKeysOpen(true)}
+                      onPair={() => {
+                        void pairing.start();
+                        setPairOpen(true);
+                      }}
+                      onClearHistory={() => {
+                        updatePersonal(() => NO_HISTORY);
+                        setAnnouncement(t("announce.historyCleared"));
+                      }}
+                    />
+                  </motion.div>
+                ) : state.mode === "search" ? (
+                  <motion.div
+                    key="search"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0"
+                  >
+                    <SearchView
+                      sections={sections}
+                      query={state.query}
+                      cursor={state.cursor}
+                      onQuery={(query) => dispatch({ type: "search", query }, "keyboard")}
+                      onCursor={(cursor) => setState({ ...state, cursor })}
+                      onKey={(row, col) => setState({ ...state, query: pressKey(state.query, KEYBOARD[row][col]), cursor: { row, col } })}
+                      onSelect={(row, col) => setState({ mode: "channel", row, col, from: "search", query: state.query })}
+                    />
+                  </motion.div>
+                ) : (
+                  <motion.div
+                    key="channel"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0"
+                  >
+                    <ChannelView
+                      section={sections[state.row]}
+                      col={state.col}
+                      onExit={() => dispatch({ type: "back" }, "click")}
+                      onDetails={() => setState({ ...state, mode: "detail" })}
+                      setCol={(c) => setState({ ...state, col: c })}
+                      playerRef={playerRef}
+                      saved={saved.has(sections[state.row].items[state.col])}
+                      onSave={() => dispatch({ type: "favorite" }, "click")}
+                    />
+                    <AnimatePresence>
+                      {state.mode === "detail" && (
+                        <DetailOverlay
+                          ref={detailRef}
+                          section={sections[state.row]}
+                          item={sections[state.row].items[state.col]}
+                          onClose={() => dispatch({ type: "back" }, "click")}
+                          onLinkOpen={stats.linkFollowed}
+                        />
+                      )}
+                    </AnimatePresence>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+              {idle && <AttractMode sections={sections} options={kiosk} />}
+            </div>
+          </TvBezel>
+        </div>
 
-                  <div className="space-y-6 pb-8 overflow-y-auto h-full pt-2">
-                    {SECTIONS.map((section, rIdx) => (
-                      <RowRail
-                        key={section.key}
-                        section={section}
-                        active={state.focus.row === rIdx}
-                        focusedCol={state.focus.row === rIdx ? state.focus.col : -1}
-                        onSelect={(cIdx) => openChannel(rIdx, cIdx)}
-                      />
-                    ))}
-                    <div className="h-6" />
-                  </div>
-                </motion.div>
-              ) : (
-                <motion.div
-                  key="channel"
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  className="absolute inset-0"
-                >
-                  <ChannelView
-                    row={state.row}
-                    col={state.col}
-                    onExit={() => setState({ mode: "home", focus: { row: state.row, col: state.col } })}
-                    setCol={(c) => setState({ ...state, col: c })}
-                  />
-                </motion.div>
-              )}
-            </AnimatePresence>
-          </div>
-        </TvBezel>
-      </div>
+        <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+        {/* Remote */}
+        <Remote
+          visible={remoteOpen}
+          onToggle={() => setRemoteOpen((v) => !v)}
+          onCommand={dispatch}
+          onLanguage={() => setLocale((l) => LOCALES[(LOCALES.indexOf(l) + 1) % LOCALES.length])}
+        />
+
+        {pairing.status !== "off" && !pairOpen && <PairingBadge code={pairing.code} status={pairing.status} onClick={() => setPairOpen(true)} />}
+
+        {pairOpen && (
+          <PairingPanel
+            code={pairing.code}
+            status={pairing.status}
+            onRetry={() => void pairing.start()}
+            onStop={() => {
+              pairing.stop();
+              setPairOpen(false);
+            }}
+            onClose={() => setPairOpen(false)}
+          />
+        )}
 
-      {/* Remote */}
-      <Remote
-        visible={remoteOpen}
-        onToggle={() => setRemoteOpen((v) => !v)}
-        onHome={remoteHandlers.onHome}
-        onBack={remoteHandlers.onBack}
-        onArrow={remoteHandlers.onArrow}
-        onOk={remoteHandlers.onOk}
-        onNumber={remoteHandlers.onNumber}
-      />
+        {serviceWorker.updateReady && <UpdatePrompt onReload={serviceWorker.update} onDismiss={serviceWorker.dismiss} />}
+
+        {keysOpen && (
+          <KeyBindingsPanel
+            bindings={bindings}
+            onChange={(b) => {
+              setBindings(b);
+              saveBindings(b);
+            }}
+            onClose={() => setKeysOpen(false)}
+          />
+        )}
 
-      {/* Footer note */}
-      <div className="text-center text-white/50 text-xs pb-6">© {new Date().getFullYear()} Ayaan · Built with Next.js</div>
-    </div>
+        {/* Footer note */}
+        <div className="text-center text-tv-page-ink/50 text-xs pb-6">
+          {t("footer.note", { year: new Date().getFullYear() })} ·{" "}
+          <Link href="/resume" className="underline underline-offset-2 hover:text-tv-page-ink">
+            {t("footer.resume")}
+          </Link>
+        </div>
+      </div>
+    </I18nContext.Provider>
   );
 }
@@ -0,0 +1,13 @@
+import React from "react";
+
+/** The TV set: bezel, screen and stand. Skins style it through the --tv-* variables (lib/theme.ts). */
+export default function TvBezel({ children, screenRef }: { children: React.ReactNode; screenRef?: React.Ref<HTMLDivElement> }) {
+  return (
+    <div className="relative mx-auto w-full max-w-6xl aspect-[16/9] rounded-[var(--tv-bezel-radius)] bg-tv-bezel shadow-2xl ring-[length:var(--tv-edge-width)] ring-tv-bezel-edge">
+      {/* Screen (touch-none: swipes navigate instead of scrolling); skin effects hook onto .tv-screen */}
+      <div ref={screenRef} data-tv-screen className="tv-screen absolute inset-[var(--tv-bezel-pad)] rounded-[var(--tv-screen-radius)] overflow-hidden bg-tv-screen text-tv-ink touch-none">{children}</div>
+      {/* Stand */}
+      <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 h-6 w-[var(--tv-stand-width)] rounded-b-2xl bg-tv-stand shadow-xl" />
+    </div>
+  );
+}
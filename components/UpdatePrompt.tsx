@@ -0,0 +1,25 @@
+"use client";
+
+import React from "react";
+import { RefreshCw } from "lucide-react";
+import { useI18n } from "../lib/i18n/context";
+
+/** Offers to switch to newly deployed content (see lib/pwa/useServiceWorker.ts). */
+export default function UpdatePrompt({ onReload, onDismiss }: { onReload: () => void; onDismiss: () => void }) {
+  const { t } = useI18n();
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="update-ready"
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-2 rounded-full bg-tv-panel/90 text-tv-panel-ink text-sm ring-1 ring-tv-panel-ink/20 backdrop-blur"
+    >
+      <span id="update-ready">{t("update.ready")}</span>
+      <button onClick={onReload} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-tv-focus text-tv-screen font-medium">
+        <RefreshCw size={14} aria-hidden /> {t("update.reload")}
+      </button>
+      <button onClick={onDismiss} className="px-2 py-1 rounded-full text-tv-panel-ink/70 hover:text-tv-panel-ink">
+        {t("update.later")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { expect, test, type Page } from "@playwright/test";
+
+// Runs against the real content/: About Me (Who I Am, Strengths), then Work Experience (Kaiser, Medusa)…
+
+const remote = (page: Page, name: string) => page.getByRole("toolbar", { name: "Remote control" }).getByRole("button", { name, exact: true });
+
+const focusedTile = (page: Page) => page.getByRole("grid", { name: "Channels" }).locator("button[tabindex='0']");
+
+const channelTitle = (page: Page) => page.getByRole("heading", { level: 1 });
+
+test.beforeEach(async ({ page }) => {
+  await page.goto("/");
+  await expect(focusedTile(page)).toHaveAccessibleName(/^Who I Am,/);
+});
+
+test("keyboard: home → channel → back", async ({ page }) => {
+  await page.keyboard.press("ArrowRight");
+  await expect(focusedTile(page)).toHaveAccessibleName(/^Strengths,/);
+
+  await page.keyboard.press("Enter");
+  await expect(page).toHaveURL("/about/strengths");
+  await expect(channelTitle(page)).toHaveText("Strengths");
+
+  // Strengths is the last item in its section.
+  await page.keyboard.press("ArrowRight");
+  await expect(page).toHaveURL("/about/strengths");
+  await page.keyboard.press("ArrowLeft");
+  await expect(page).toHaveURL("/about/intro");
+
+  await page.keyboard.press("Backspace");
+  await expect(page).toHaveURL("/");
+  await expect(focusedTile(page)).toHaveAccessibleName(/^Who I Am,/);
+});
+
+test("Remote: home → channel → details → back", async ({ page }) => {
+  await remote(page, "Down").click();
+  await expect(focusedTile(page)).toHaveAccessibleName(/^AI\/ML SWE Intern – Kaiser,/);
+
+  await remote(page, "OK").click();
+  await expect(page).toHaveURL("/experience/kaiser");
+  await expect(channelTitle(page)).toHaveText("AI/ML SWE Intern – Kaiser");
+
+  await remote(page, "OK").click();
+  await expect(page).toHaveURL("/experience/kaiser/details");
+  await expect(page.getByRole("dialog")).toBeVisible();
+
+  await remote(page, "Back").click();
+  await expect(page).toHaveURL("/experience/kaiser");
+  await expect(page.getByRole("dialog")).toBeHidden();
+
+  await remote(page, "Back").click();
+  await expect(page).toHaveURL("/");
+  await expect(focusedTile(page)).toHaveAccessibleName(/^AI\/ML SWE Intern – Kaiser,/);
+});
+
+test("back and forward buttons replay the screens", async ({ page }) => {
+  await page.keyboard.press("Enter");
+  await expect(page).toHaveURL("/about/intro");
+  await page.keyboard.press("ArrowRight");
+  await expect(page).toHaveURL("/about/strengths");
+  await page.keyboard.press("g");
+  await expect(page).toHaveURL("/guide");
+
+  await page.goBack();
+  await expect(page).toHaveURL("/about/strengths");
+  await expect(channelTitle(page)).toHaveText("Strengths");
+  await page.goBack();
+  await expect(channelTitle(page)).toHaveText("Who I Am");
+  await page.goBack();
+  await expect(page).toHaveURL("/");
+  await expect(page.getByRole("grid", { name: "Channels" })).toBeVisible();
+
+  await page.goForward();
+  await expect(page).toHaveURL("/about/intro");
+  await expect(channelTitle(page)).toHaveText("Who I Am");
+});
+
+test("deep links and legacy hashes open the channel", async ({ page }) => {
+  await page.goto("/projects/sig-parser");
+  await expect(channelTitle(page)).toHaveText("SIG Parser");
+
+  await page.goto("/#hobbies=reading");
+  await expect(page).toHaveURL("/hobbies/reading");
+  await expect(channelTitle(page)).toHaveText("Reading");
+
+  await page.keyboard.press("Escape");
+  await expect(page).toHaveURL("/");
+});
@@ -0,0 +1,28 @@
+/**
+ * DOM focus helpers shared by the key handler and the focus-managing views.
+ */
+
+/** Text fields and contenteditable regions own their keys (Backspace, arrows, Space…). */
+export function isEditable(el: EventTarget | null) {
+  if (!(el instanceof HTMLElement)) return false;
+  if (el.isContentEditable) return true;
+  if (el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement) return true;
+  return el instanceof HTMLInputElement && !["button", "checkbox", "radio", "range", "submit", "reset"].includes(el.type);
+}
+
+/** Elements that activate natively on Enter/Space. */
+export function isActivatable(el: EventTarget | null) {
+  return el instanceof HTMLElement && !!el.closest("button, a[href], summary, [role='button'], [role='link'], input");
+}
+
+/** Inside a toolbar the arrow keys move between its controls (ARIA toolbar pattern). */
+export const inToolbar = (el: EventTarget | null) => el instanceof HTMLElement && !!el.closest("[role='toolbar']");
+
+/**
+ * Views move DOM focus to follow the TV focus only when the user isn't
+ * somewhere else on the page (e.g. tabbing through the Remote or a dialog).
+ */
+export function shouldFollowFocus() {
+  const active = document.activeElement;
+  return !active || active === document.body || !!active.closest("[data-tv-screen]");
+}
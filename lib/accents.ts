@@ -0,0 +1,19 @@
+/**
+ * Named accent colours for sections. Content files refer to these by name;
+ * each name is a theme-aware token pair (`--accent-<name>-from/-to`, defined
+ * per skin in app/globals.css) exposed as Tailwind gradient stops here, so
+ * the classes live in one place and are picked up by the content scan.
+ */
+export const ACCENTS = {
+  blue: "from-accent-blue-from to-accent-blue-to",
+  fuchsia: "from-accent-fuchsia-from to-accent-fuchsia-to",
+  emerald: "from-accent-emerald-from to-accent-emerald-to",
+  orange: "from-accent-orange-from to-accent-orange-to",
+  violet: "from-accent-violet-from to-accent-violet-to",
+  rose: "from-accent-rose-from to-accent-rose-to",
+} as const;
+
+export type Accent = keyof typeof ACCENTS;
+
+export const isAccent = (v: unknown): v is Accent =>
+  typeof v === "string" && Object.prototype.hasOwnProperty.call(ACCENTS, v);
@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useRef } from "react";
+import type { Section, ViewState } from "../types";
+import { itemKey, MAX_BATCH, viewEvents, type AnalyticsEvent, type NavSource, type Stage } from "./events";
+
+/**
+ * Viewing analytics: browser side
+ * ------------------------------------------------------
+ * Queues events and sends them in batches with `navigator.sendBeacon` (every
+ * FLUSH_MS, and when the tab is hidden or closed). Nothing is sent, or even
+ * queued, when the browser asks not to be tracked (Do Not Track or Global
+ * Privacy Control).
+ */
+
+export const STATS_ENDPOINT = "/api/stats";
+const FLUSH_MS = 15_000;
+
+export function trackingAllowed() {
+  if (typeof navigator === "undefined") return false;
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const dnt = nav.doNotTrack ?? (window as Window & { doNotTrack?: string }).doNotTrack;
+  return dnt !== "1" && dnt !== "yes" && !nav.globalPrivacyControl;
+}
+
+/** Collects events; `flush` beacons whatever is queued. */
+class Tracker {
+  private queue: AnalyticsEvent[] = [];
+  private reached = new Set<Stage>();
+  // Dwell clock for the item on screen; paused while the tab is hidden.
+  private watching: { item: string; since: number; ms: number } | null = null;
+
+  record(events: AnalyticsEvent[]) {
+    this.queue.push(...events);
+    if (this.queue.length >= MAX_BATCH) this.flush();
+  }
+
+  reach(stage: Stage) {
+    if (this.reached.has(stage)) return;
+    this.reached.add(stage);
+    this.record([{ type: "reach", stage }]);
+  }
+
+  /** Starts timing `item` (or nothing), reporting the dwell of the previous one. */
+  watch(item: string | null) {
+    if (this.watching?.item === item) return;
+    this.stopWatching();
+    if (item) this.watching = { item, since: document.hidden ? NaN : performance.now(), ms: 0 };
+  }
+
+  pause() {
+    const w = this.watching;
+    if (w && !Number.isNaN(w.since)) {
+      w.ms += performance.now() - w.since;
+      w.since = NaN;
+    }
+  }
+
+  resume() {
+    if (this.watching && Number.isNaN(this.watching.since)) this.watching.since = performance.now();
+  }
+
+  private stopWatching() {
+    this.pause();
+    const w = this.watching;
+    this.watching = null;
+    if (w && w.ms >= 1000) this.record([{ type: "dwell", item: w.item, ms: Math.round(w.ms) }]);
+  }
+
+  /** The page is going away; it may still come back from the back/forward cache. */
+  leave(screen: ViewState["mode"], item: string | null) {
+    this.stopWatching();
+    this.record([item ? { type: "exit", screen, item } : { type: "exit", screen }]);
+    this.flush();
+    this.watch(item);
+  }
+
+  flush() {
+    if (!this.queue.length) return;
+    const body = JSON.stringify({ events: this.queue.splice(0, MAX_BATCH) });
+    // text/plain keeps the beacon a "simple" request.
+    if (!navigator.sendBeacon?.(STATS_ENDPOINT, body)) void fetch(STATS_ENDPOINT, { method: "POST", body, keepalive: true }).catch(() => {});
+    if (this.queue.length) this.flush();
+  }
+}
+
+/**
+ * Reports channel opens, dwell, screen changes, funnel stages and drop-off
+ * for TVPortfolio. Call `attribute(source)` just before changing state so
+ * the change is credited to that input; unattributed changes count as clicks.
+ */
+export function useViewingStats(sections: Section[], state: ViewState, enabled = true) {
+  const tracker = useRef<Tracker | null>(null);
+  const prev = useRef<ViewState | null>(null);
+  // The first state comes from the URL the visitor opened.
+  const source = useRef<NavSource>("link");
+  const idle = useRef(false);
+  const latest = useRef({ sections, state });
+  useEffect(() => {
+    latest.current = { sections, state };
+  });
+
+  useEffect(() => {
+    if (!enabled || !trackingAllowed()) return;
+    const t = (tracker.current = new Tracker());
+    t.reach("visit");
+    const timer = setInterval(() => t.flush(), FLUSH_MS);
+    // Hiding the tab may be the last chance to send anything, so flush then too.
+    const onVisibility = () => {
+      if (!document.hidden) {
+        if (!idle.current) t.resume();
+        return;
+      }
+      t.pause();
+      t.flush();
+    };
+    const onPageHide = () => {
+      const { sections, state } = latest.current;
+      t.leave(state.mode, itemKey(sections, state));
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisibility);
+      window.removeEventListener("pagehide", onPageHide);
+      t.flush();
+      tracker.current = null;
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const t = tracker.current;
+    const before = prev.current;
+    prev.current = state;
+    const from = source.current;
+    source.current = "click";
+    if (!t) return;
+    // Re-labelling (a language switch) doesn't change what is being watched,
+    // so this follows `state` only and reads the sections it was shown with.
+    const { sections } = latest.current;
+    t.record(viewEvents(sections, before, state, from));
+    t.watch(itemKey(sections, state));
+    if (state.mode === "channel" || state.mode === "detail") t.reach("channel");
+    if (state.mode === "detail") t.reach("detail");
+  }, [state]);
+
+  return useMemo(
+    () => ({
+      attribute: (next: NavSource) => {
+        source.current = next;
+      },
+      linkFollowed: () => tracker.current?.reach("link"),
+      // Attract mode plays to nobody in particular, so it isn't watch time.
+      idle: (on: boolean) => {
+        idle.current = on;
+        if (on) tracker.current?.pause();
+        else if (!document.hidden) tracker.current?.resume();
+      },
+    }),
+    [],
+  );
+}
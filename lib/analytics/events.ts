@@ -0,0 +1,105 @@
+import type { InputSource } from "../input/useInput";
+import type { Section, ViewState } from "../types";
+
+/**
+ * Viewing analytics: events
+ * ------------------------------------------------------
+ * What the TV page reports, and the pure function that derives it from
+ * ViewState changes. Events carry content ids and screen names only: no
+ * URLs, referrers, user agents or identifiers of the visitor.
+ *
+ *   open   a channel was tuned (item, and how: keyboard, remote, click, link…)
+ *   dwell  time spent on an item before leaving it (tab hidden time excluded)
+ *   nav    a move between screens ("home" → "channel")
+ *   reach  the visit got this far down the funnel (sent once per stage)
+ *   exit   the screen (and item) the visit ended on
+ */
+
+// `click` covers pointer use of on-screen buttons and tiles, `link` a page
+// opened from a URL (including old #hash links), `history` back/forward.
+export type NavSource = InputSource | "click" | "link" | "history";
+export const NAV_SOURCES: NavSource[] = ["keyboard", "gamepad", "touch", "remote", "phone", "click", "link", "history"];
+
+export type Screen = ViewState["mode"];
+export const SCREENS: Screen[] = ["home", "guide", "search", "settings", "channel", "detail"];
+
+/** Visit → watched a channel → opened its details → followed one of its links. */
+export const STAGES = ["visit", "channel", "detail", "link"] as const;
+export type Stage = (typeof STAGES)[number];
+
+/** `<section key>/<item id>`, stable across locales and channel renumbering. */
+export type ItemKey = string;
+
+export type AnalyticsEvent =
+  | { type: "open"; item: ItemKey; source: NavSource }
+  | { type: "dwell"; item: ItemKey; ms: number }
+  | { type: "nav"; from: Screen; to: Screen; source: NavSource }
+  | { type: "reach"; stage: Stage }
+  | { type: "exit"; screen: Screen; item?: ItemKey };
+
+export const MAX_BATCH = 50;
+/** Longer dwells are clamped; a tab left open overnight isn't "watching". */
+export const MAX_DWELL_MS = 30 * 60_000;
+
+export function itemKey(sections: Section[], state: ViewState): ItemKey | null {
+  if (state.mode !== "channel" && state.mode !== "detail") return null;
+  const section = sections[state.row];
+  const item = section?.items[state.col];
+  return item ? `${section.key}/${item.id}` : null;
+}
+
+/** Events for moving from `prev` (null on first paint) to `next`; dwell is timed by the caller. */
+export function viewEvents(sections: Section[], prev: ViewState | null, next: ViewState, source: NavSource): AnalyticsEvent[] {
+  const events: AnalyticsEvent[] = [];
+  const from = prev && itemKey(sections, prev);
+  const to = itemKey(sections, next);
+  if (prev && prev.mode !== next.mode) events.push({ type: "nav", from: prev.mode, to: next.mode, source });
+  if (to && to !== from) events.push({ type: "open", item: to, source });
+  return events;
+}
+
+// -------------------- Validation (server) --------------------
+
+const isItemKey = (v: unknown): v is ItemKey => typeof v === "string" && /^[a-z0-9-]+\/[a-z0-9-]+$/.test(v) && v.length <= 120;
+const isSource = (v: unknown): v is NavSource => NAV_SOURCES.includes(v as NavSource);
+const isScreen = (v: unknown): v is Screen => SCREENS.includes(v as Screen);
+
+function parseEvent(raw: unknown): AnalyticsEvent | null {
+  if (!raw || typeof raw !== "object") return null;
+  const e = raw as Record<string, unknown>;
+  switch (e.type) {
+    case "open":
+      return isItemKey(e.item) && isSource(e.source) ? { type: "open", item: e.item, source: e.source } : null;
+    case "dwell":
+      return isItemKey(e.item) && typeof e.ms === "number" && e.ms > 0 ? { type: "dwell", item: e.item, ms: Math.min(Math.round(e.ms), MAX_DWELL_MS) } : null;
+    case "nav":
+      return isScreen(e.from) && isScreen(e.to) && isSource(e.source) ? { type: "nav", from: e.from, to: e.to, source: e.source } : null;
+    case "reach":
+      return STAGES.includes(e.stage as Stage) ? { type: "reach", stage: e.stage as Stage } : null;
+    case "exit":
+      if (!isScreen(e.screen)) return null;
+      return isItemKey(e.item) ? { type: "exit", screen: e.screen, item: e.item } : { type: "exit", screen: e.screen };
+    default:
+      return null;
+  }
+}
+
+/** The valid events of a posted batch; anything unexpected is dropped, not stored. */
+export function parseBatch(raw: unknown): AnalyticsEvent[] {
+  const events = raw && typeof raw === "object" ? (raw as { events?: unknown }).events : null;
+  if (!Array.isArray(events)) return [];
+  return events.slice(0, MAX_BATCH).map(parseEvent).filter((e): e is AnalyticsEvent => e !== null);
+}
+
+/**
+ * Drops what a batch says about items that aren't in the content (a made-up
+ * key would otherwise add a row to the totals for good); an exit keeps its
+ * screen but loses the unknown item.
+ */
+export function forKnownItems(events: AnalyticsEvent[], known: ReadonlySet<ItemKey>): AnalyticsEvent[] {
+  return events.flatMap((e): AnalyticsEvent[] => {
+    if (e.type === "exit") return e.item && !known.has(e.item) ? [{ type: "exit", screen: e.screen }] : [e];
+    if (e.type === "open" || e.type === "dwell") return known.has(e.item) ? [e] : [];
+    return [e];
+  });
+}
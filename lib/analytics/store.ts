@@ -0,0 +1,95 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { NAV_SOURCES, SCREENS, STAGES, type AnalyticsEvent, type ItemKey, type NavSource, type Screen, type Stage } from "./events";
+
+/**
+ * Viewing analytics: storage
+ * ------------------------------------------------------
+ * Server-side only. Events are folded into running totals as they arrive and
+ * only the totals are written, to a JSON file (STATS_FILE, default
+ * .data/stats.json). There is no per-visitor record to leak or delete.
+ */
+
+export const STATS_FILE = process.env.STATS_FILE ?? path.join(process.cwd(), ".data", "stats.json");
+
+export type ItemStats = { opens: number; dwellMs: number; dwells: number; exits: number };
+
+export type Stats = {
+  since: string | null;
+  /** Visits per day (UTC, YYYY-MM-DD). */
+  days: Record<string, number>;
+  items: Record<ItemKey, ItemStats>;
+  /** Channel opens by input. */
+  sources: Record<NavSource, number>;
+  /** Screen changes, keyed "from>to". */
+  paths: Record<string, number>;
+  funnel: Record<Stage, number>;
+  /** Screens visits ended on. */
+  exits: Record<Screen, number>;
+};
+
+const zeroes = <K extends string>(keys: readonly K[]) => Object.fromEntries(keys.map((k) => [k, 0])) as Record<K, number>;
+
+export const emptyStats = (): Stats => ({
+  since: null,
+  days: {},
+  items: {},
+  sources: zeroes(NAV_SOURCES),
+  paths: {},
+  funnel: zeroes(STAGES),
+  exits: zeroes(SCREENS),
+});
+
+/** Folds `events` into `stats` (mutates and returns it). */
+export function applyEvents(stats: Stats, events: AnalyticsEvent[], now = new Date()): Stats {
+  const day = now.toISOString().slice(0, 10);
+  stats.since ??= day;
+  const item = (key: ItemKey) => (stats.items[key] ??= { opens: 0, dwellMs: 0, dwells: 0, exits: 0 });
+  for (const e of events) {
+    if (e.type === "open") {
+      item(e.item).opens++;
+      stats.sources[e.source]++;
+    } else if (e.type === "dwell") {
+      item(e.item).dwellMs += e.ms;
+      item(e.item).dwells++;
+    } else if (e.type === "nav") {
+      const key = `${e.from}>${e.to}`;
+      stats.paths[key] = (stats.paths[key] ?? 0) + 1;
+    } else if (e.type === "reach") {
+      stats.funnel[e.stage]++;
+      if (e.stage === "visit") stats.days[day] = (stats.days[day] ?? 0) + 1;
+    } else {
+      stats.exits[e.screen]++;
+      if (e.item) item(e.item).exits++;
+    }
+  }
+  return stats;
+}
+
+export async function readStats(file = STATS_FILE): Promise<Stats> {
+  try {
+    // Merge over the empty shape so totals added in later versions start at 0.
+    const saved = JSON.parse(await fs.readFile(file, "utf8")) as Partial<Stats>;
+    const base = emptyStats();
+    return { ...base, ...saved, sources: { ...base.sources, ...saved.sources }, funnel: { ...base.funnel, ...saved.funnel }, exits: { ...base.exits, ...saved.exits } };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return emptyStats();
+    throw e;
+  }
+}
+
+// Writes are read-modify-write, so run them one at a time.
+let queue: Promise<unknown> = Promise.resolve();
+
+export function recordEvents(events: AnalyticsEvent[], file = STATS_FILE) {
+  const run = queue.then(async () => {
+    const stats = applyEvents(await readStats(file), events);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write-then-rename so a crash never leaves half a file.
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(stats));
+    await fs.rename(tmp, file);
+  });
+  queue = run.catch(() => {});
+  return run;
+}
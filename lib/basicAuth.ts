@@ -0,0 +1,30 @@
+/**
+ * HTTP Basic auth for the private pages (any user name, one password per
+ * page from an environment variable). Used by middleware.ts and by server
+ * actions, which can be posted to any route and so need their own check.
+ */
+
+// Compares without bailing out at the first difference.
+function sameString(a: string, b: string) {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  return diff === 0;
+}
+
+function passwordOf(authorization: string | null) {
+  const [scheme, encoded] = (authorization ?? "").split(" ");
+  if (scheme !== "Basic" || !encoded) return null;
+  try {
+    const decoded = atob(encoded);
+    return decoded.slice(decoded.indexOf(":") + 1);
+  } catch {
+    return null;
+  }
+}
+
+/** True if the Authorization header carries `password`; always false when `password` is unset. */
+export function hasPassword(authorization: string | null, password: string | undefined) {
+  if (!password) return false;
+  const given = passwordOf(authorization);
+  return given !== null && sameString(given, password);
+}
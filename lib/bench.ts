@@ -0,0 +1,71 @@
+import { ACCENTS, type Accent } from "./accents";
+import type { Section } from "./types";
+
+/**
+ * The /bench page's synthetic catalog, scripted remote session and frame
+ * statistics. The catalog has no images, so tiles show their title cards and
+ * the numbers measure the TV's own work rather than image decoding.
+ */
+
+export const BENCH_SIZE = { rows: 50, cols: 200 };
+
+const COLORS = Object.keys(ACCENTS) as Accent[];
+
+/**
+ * Unique item ids, and unique channels 1…rows×cols. That runs past the
+ * loader's MAX_CHANNEL (to 10000 at the default size): this catalog never goes
+ * through the loader, and channel entry takes as many digits as the longest
+ * number has.
+ */
+export function syntheticCatalog(rows = BENCH_SIZE.rows, cols = BENCH_SIZE.cols): Section[] {
+  return Array.from({ length: rows }, (_, r) => ({
+    key: `row-${r + 1}`,
+    label: `Row ${r + 1}`,
+    color: COLORS[r % COLORS.length],
+    items: Array.from({ length: cols }, (_, c) => ({
+      id: `r${r + 1}-item-${c + 1}`,
+      title: `Item ${r + 1}.${c + 1}`,
+      subtitle: `Synthetic tile ${c + 1} of ${cols}`,
+      channel: r * cols + c + 1,
+      links: [],
+      tags: [`tag-${c % 12}`],
+      media: [],
+    })),
+  }));
+}
+
+/** A key held for `ms` (0 = a tap), then `pause` ms before the next step. */
+export type BenchStep = { key: string; ms: number; pause: number };
+
+// Across a long row and back, down and up the rows, with and without acceleration.
+export const BENCH_SCRIPT: BenchStep[] = [
+  { key: "ArrowRight", ms: 4000, pause: 300 },
+  ...Array.from({ length: 8 }, () => ({ key: "ArrowDown", ms: 0, pause: 120 })),
+  ...Array.from({ length: 12 }, () => ({ key: "ArrowRight", ms: 0, pause: 80 })),
+  { key: "ArrowLeft", ms: 2500, pause: 300 },
+  { key: "ArrowDown", ms: 2500, pause: 300 },
+  { key: "ArrowUp", ms: 2500, pause: 0 },
+];
+
+/** Keyboard auto-repeat rate the script plays held keys at. */
+export const KEY_REPEAT_MS = 33;
+
+export const FRAME_MS = 1000 / 60;
+
+export type FrameStats = { frames: number; fps: number; p95: number; worst: number; dropped: number };
+
+/** Summary of rAF-to-rAF intervals (ms); a frame that took over 1.5 refreshes counts as dropped. */
+export function frameStats(deltas: number[]): FrameStats {
+  const sorted = [...deltas].sort((a, b) => a - b);
+  const total = deltas.reduce((sum, d) => sum + d, 0);
+  return {
+    frames: deltas.length,
+    fps: total ? (deltas.length * 1000) / total : 0,
+    p95: sorted[Math.floor(0.95 * (sorted.length - 1))] ?? 0,
+    worst: sorted.at(-1) ?? 0,
+    dropped: deltas.filter((d) => d > FRAME_MS * 1.5).length,
+  };
+}
+
+/** Whether a run held 60fps: the average at the display rate and nearly every frame on time. */
+export const heldSixty = (s: FrameStats) => s.frames > 0 && s.fps >= 58 && s.p95 <= FRAME_MS * 1.25;
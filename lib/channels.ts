@@ -0,0 +1,34 @@
+import type { Section } from "./types";
+
+/**
+ * Channel-number lookups over the whole line-up. Channel order is numeric,
+ * so surfing with channel up/down crosses section boundaries.
+ */
+
+export type Tuning = { row: number; col: number; channel: number };
+
+export function lineup(sections: Section[]): Tuning[] {
+  return sections
+    .flatMap((s, row) => s.items.map((item, col) => ({ row, col, channel: item.channel })))
+    .sort((a, b) => a.channel - b.channel);
+}
+
+export function findChannel(sections: Section[], channel: number): Tuning | null {
+  for (let row = 0; row < sections.length; row++) {
+    const col = sections[row].items.findIndex((i) => i.channel === channel);
+    if (col >= 0) return { row, col, channel };
+  }
+  return null;
+}
+
+/** Next/previous channel from (row, col), wrapping around the ends like a TV. */
+export function stepChannel(sections: Section[], row: number, col: number, delta: 1 | -1): Tuning | null {
+  const all = lineup(sections);
+  if (!all.length) return null;
+  const at = all.findIndex((t) => t.row === row && t.col === col);
+  return all[(at + delta + all.length) % all.length];
+}
+
+/** Most digits a channel number can have in this line-up. */
+export const maxDigits = (sections: Section[]) =>
+  Math.max(1, ...sections.flatMap((s) => s.items.map((i) => String(i.channel).length)));
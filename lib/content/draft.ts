@@ -0,0 +1,80 @@
+import type { Accent } from "../accents";
+import type { Item, Section } from "../types";
+import { assignChannels } from "./schema";
+
+/**
+ * Admin editor drafts
+ * ------------------------------------------------------
+ * The editable part of the content, as the /admin form holds it. `was` is
+ * the key/id the section or item has on disk (unset when it is new), so a
+ * save can tell a rename from a new entry and record a redirect.
+ * lib/content/store.ts turns a draft back into files.
+ */
+
+export const ITEM_FIELDS = ["title", "subtitle", "image", "description"] as const;
+
+export type DraftItem = { was?: string; id: string } & Record<(typeof ITEM_FIELDS)[number], string>;
+
+export type DraftSection = { was?: string; key: string; label: string; color: Accent; items: DraftItem[] };
+
+export function toDraft(sections: Section[]): DraftSection[] {
+  return sections.map((s) => ({
+    was: s.key,
+    key: s.key,
+    label: s.label,
+    color: s.color,
+    items: s.items.map((i) => ({
+      was: i.id,
+      id: i.id,
+      title: i.title,
+      subtitle: i.subtitle ?? "",
+      image: i.image ?? "",
+      description: i.description ?? "",
+    })),
+  }));
+}
+
+/** First `<prefix>-<n>` not in `taken`. */
+export function freshSlug(prefix: string, taken: string[]) {
+  let n = 1;
+  while (taken.includes(`${prefix}-${n}`)) n++;
+  return `${prefix}-${n}`;
+}
+
+/** `list` with the entry at `from` moved to `to`. */
+export function move<T>(list: T[], from: number, to: number): T[] {
+  const out = [...list];
+  out.splice(to, 0, ...out.splice(from, 1));
+  return out;
+}
+
+/**
+ * Sections for the live preview: drafted fields over the saved items (so
+ * clips, tags and channel numbers carry over); new items get the next free
+ * channel number.
+ */
+export function previewSections(draft: DraftSection[], saved: Section[]): Section[] {
+  const savedItems = new Map(saved.flatMap((s) => s.items.map((i) => [`${s.key}/${i.id}`, i])));
+  const sections = draft.map((s) => ({
+    key: s.key,
+    label: s.label,
+    color: s.color,
+    items: s.items.map((d): Item => {
+      const was = s.was !== undefined && d.was !== undefined ? savedItems.get(`${s.was}/${d.was}`) : undefined;
+      return {
+        links: [],
+        tags: [],
+        media: [],
+        ...was,
+        channel: was?.channel ?? 0,
+        id: d.id,
+        title: d.title,
+        subtitle: d.subtitle || undefined,
+        image: d.image || undefined,
+        description: d.description || undefined,
+      };
+    }),
+  }));
+  assignChannels(sections, []);
+  return sections;
+}
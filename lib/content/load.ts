@@ -0,0 +1,111 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { cache } from "react";
+import matter from "gray-matter";
+import { LOCALES } from "../i18n/locales";
+import type { Item, Section } from "../types";
+import { blurFor } from "./placeholders";
+import { ContentError, assignChannels, checkSections, isTranslationLocale, parseItem, parseItemText, parseSection } from "./schema";
+
+/**
+ * Server-side content loader
+ * ------------------------------------------------------
+ * content/sections/<key>/section.json      { order, label, color, items: [ids…], translations? }
+ * content/sections/<key>/<id>.md           frontmatter (title, subtitle, description, …) + Markdown body
+ * content/sections/<key>/<id>.json         same fields as plain JSON
+ * content/sections/<key>/<id>.<locale>.md  translated title/subtitle/description/tags + body (or .json)
+ *
+ * Local images (under public/) also get a blur placeholder (placeholders.ts).
+ *
+ * Runs at build time (static pages); any problem throws a ContentError that
+ * lists every issue found, which fails the build.
+ */
+
+export const CONTENT_DIR = path.join(process.cwd(), "content", "sections");
+
+type Found = { data: Record<string, unknown>; file: string };
+
+/** Reads `<name>.md` (frontmatter + body) or `<name>.json`; undefined if neither exists, null if unreadable. */
+async function readEntry(dir: string, name: string, where: string, issues: string[]): Promise<Found | null | undefined> {
+  try {
+    const { data, content } = matter(await fs.readFile(path.join(dir, `${name}.md`), "utf8"));
+    return { data: { ...data, body: content.trim() }, file: `${where}/${name}.md` };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+      // Unreadable file or frontmatter that isn't valid YAML.
+      issues.push(`${where}/${name}.md: ${(e as Error).message}`);
+      return null;
+    }
+  }
+  try {
+    return { data: JSON.parse(await fs.readFile(path.join(dir, `${name}.json`), "utf8")), file: `${where}/${name}.json` };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    issues.push(`${where}/${name}.json: ${(e as Error).message}`);
+    return null;
+  }
+}
+
+async function readItem(dir: string, id: string, where: string, issues: string[]): Promise<Item | null> {
+  const found = await readEntry(dir, id, where, issues);
+  if (found === undefined) issues.push(`${where}: listed item "${id}" has no ${id}.md or ${id}.json`);
+  if (!found) return null;
+  const item = parseItem({ ...found.data, id }, found.file, issues);
+  if (!item) return null;
+  const blur = item.image && (await blurFor(item.image, found.file, issues));
+  if (blur) item.blur = blur;
+
+  for (const locale of LOCALES.filter(isTranslationLocale)) {
+    const t = await readEntry(dir, `${id}.${locale}`, where, issues);
+    const text = t && parseItemText(t.data, t.file, issues);
+    if (text) item.translations = { ...item.translations, [locale]: text };
+  }
+  return item;
+}
+
+export async function loadSectionsFrom(root: string): Promise<Section[]> {
+  const issues: string[] = [];
+  const dirs = (await fs.readdir(root, { withFileTypes: true })).filter((d) => d.isDirectory());
+  const loaded: { order: number; section: Section }[] = [];
+
+  for (const d of dirs) {
+    const where = `content/sections/${d.name}`;
+    const dir = path.join(root, d.name);
+    let meta: Record<string, unknown>;
+    try {
+      meta = JSON.parse(await fs.readFile(path.join(dir, "section.json"), "utf8"));
+    } catch (e) {
+      issues.push(`${where}/section.json: ${(e as Error).message}`);
+      continue;
+    }
+    const base = parseSection({ ...meta, key: d.name }, `${where}/section.json`, issues);
+    const ids = meta.items;
+    if (!Array.isArray(ids) || ids.some((id) => typeof id !== "string")) {
+      issues.push(`${where}/section.json: "items" must be a list of item ids`);
+      continue;
+    }
+
+    const files = (await fs.readdir(dir)).filter((f) => f !== "section.json" && /\.(md|json)$/.test(f));
+    for (const f of files) {
+      const [id, locale, ...rest] = f.replace(/\.(md|json)$/, "").split(".");
+      if (!ids.includes(id)) issues.push(`${where}/${f}: not listed in section.json "items"`);
+      else if (locale !== undefined && (rest.length || !isTranslationLocale(locale))) issues.push(`${where}/${f}: "${locale}" is not a translation locale`);
+    }
+
+    const items: Item[] = [];
+    for (const id of ids as string[]) {
+      const item = await readItem(dir, id, where, issues);
+      if (item) items.push(item);
+    }
+    if (base) loaded.push({ order: typeof meta.order === "number" ? meta.order : Infinity, section: { ...base, items } });
+  }
+
+  const sections = loaded.sort((a, b) => a.order - b.order).map((l) => l.section);
+  checkSections(sections, issues);
+  assignChannels(sections, issues);
+  if (issues.length) throw new ContentError(issues);
+  return sections;
+}
+
+/** Cached per request/build so pages and metadata share one read. */
+export const loadSections = cache(() => loadSectionsFrom(CONTENT_DIR));
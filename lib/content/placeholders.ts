@@ -0,0 +1,30 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+
+export const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+// Wide enough for a recognisable blur, small enough to inline in every page.
+const BLUR_SIZE = 10;
+
+/**
+ * A tiny PNG of a local (`/…`, from public/) image as a data: URL, for the
+ * next/image blur placeholder. Remote images get none; a local image that
+ * isn't there is reported like any other content problem.
+ */
+export async function blurFor(src: string, where: string, issues: string[], publicDir = PUBLIC_DIR) {
+  if (!src.startsWith("/") || src.startsWith("//")) return undefined;
+  const file = path.join(publicDir, decodeURI(src.split(/[?#]/)[0]));
+  if (!file.startsWith(publicDir + path.sep)) {
+    issues.push(`${where}: image "${src}" is outside public/`);
+    return undefined;
+  }
+  try {
+    const png = await sharp(await fs.readFile(file)).resize(BLUR_SIZE, BLUR_SIZE, { fit: "inside" }).png().toBuffer();
+    return `data:image/png;base64,${png.toString("base64")}`;
+  } catch (e) {
+    const missing = (e as NodeJS.ErrnoException).code === "ENOENT";
+    issues.push(`${where}: image "${src}" ${missing ? "is not in public/" : `can't be read (${(e as Error).message})`}`);
+    return undefined;
+  }
+}
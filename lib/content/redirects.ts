@@ -0,0 +1,56 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { cache } from "react";
+
+/**
+ * Renamed items
+ * ------------------------------------------------------
+ * content/redirects.json maps an old `key/id` to where the item lives now,
+ * so channel links shared before a rename (paths and legacy `#key=id`
+ * hashes) keep working. Written by the admin editor (lib/content/store.ts).
+ */
+
+export const REDIRECTS_FILE = path.join(process.cwd(), "content", "redirects.json");
+
+/** Old `key/id` -> current `key/id`. */
+export type Redirects = Record<string, string>;
+
+export async function readRedirects(file = REDIRECTS_FILE): Promise<Redirects> {
+  try {
+    const saved: unknown = JSON.parse(await fs.readFile(file, "utf8"));
+    if (typeof saved !== "object" || saved === null) return {};
+    return Object.fromEntries(Object.entries(saved).filter(([, to]) => typeof to === "string"));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw e;
+  }
+}
+
+export async function writeRedirects(redirects: Redirects, file = REDIRECTS_FILE) {
+  const sorted = Object.fromEntries(Object.entries(redirects).sort(([a], [b]) => a.localeCompare(b)));
+  await fs.writeFile(file, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+/**
+ * Adds `renames` (old -> new `key/id`), re-pointing older redirects at the
+ * new location so there are no chains. Redirects whose source is a live item
+ * again, or whose target no longer exists, are dropped.
+ */
+export function withRenames(redirects: Redirects, renames: [string, string][], live: Set<string>): Redirects {
+  const out = { ...redirects };
+  for (const [from, to] of renames) {
+    for (const k of Object.keys(out)) if (out[k] === from) out[k] = to;
+    out[from] = to;
+  }
+  for (const k of Object.keys(out)) if (live.has(k) || !live.has(out[k])) delete out[k];
+  return out;
+}
+
+/** Cached per request/build, like loadSections. */
+export const loadRedirects = cache(() => readRedirects());
+
+/** `/key/id` of the item that `key/id` was renamed to, or null. */
+export async function redirectFor(key: string, id: string) {
+  const to = (await loadRedirects())[`${key}/${id}`];
+  return to ? `/${to}` : null;
+}
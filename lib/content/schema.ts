@@ -0,0 +1,277 @@
+import { ACCENTS, isAccent } from "../accents";
+import { DEFAULT_LOCALE, isLocale, LOCALES } from "../i18n/locales";
+import type { Item, ItemLink, ItemText, LinkType, Media, Section } from "../types";
+
+/**
+ * Validation for portfolio content. Everything here is pure so it can run on
+ * the output of any loader (files on disk today, other stores later).
+ */
+
+// Keys and ids end up in `#key=id` hashes and URL paths, so keep them to
+// lowercase slugs: no `=`, `#`, `/`, whitespace or uppercase surprises.
+export const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Section keys that would collide with hashes/routes the UI already uses.
+export const RESERVED_KEYS = ["home", "guide", "search", "settings", "remote", "stats", "admin", "offline", "api", "resume", "bench"];
+
+export const MAX_CHANNEL = 9999;
+
+export const LINK_TYPES: LinkType[] = ["repo", "demo", "paper", "site"];
+
+// Links and media may be site-relative or http(s) only: no javascript:/data: URLs.
+const URL_OK = /^(https?:\/\/|\/(?!\/))/;
+
+const DATE = /^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/;
+
+export class ContentError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid portfolio content (${issues.length} problem${issues.length === 1 ? "" : "s"}):\n  - ${issues.join("\n  - ")}`);
+    this.name = "ContentError";
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+const isRecord = (v: unknown): v is Raw => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// YAML frontmatter turns unquoted 2024-06-01 into a Date; normalise back to a string.
+function date(raw: Raw, field: string, where: string, issues: string[]): string | undefined {
+  const v = raw[field] instanceof Date ? (raw[field] as Date).toISOString().slice(0, 10) : raw[field];
+  if (v === undefined || v === null || v === "") return undefined;
+  if (typeof v !== "string" || !DATE.test(v)) {
+    issues.push(`${where}: "${field}" must be a YYYY-MM or YYYY-MM-DD date (got ${JSON.stringify(v)})`);
+    return undefined;
+  }
+  return v;
+}
+
+function text(raw: Raw, field: string, where: string, issues: string[], required: boolean): string | undefined {
+  const v = raw[field];
+  if (v === undefined || v === null || v === "") {
+    if (required) issues.push(`${where}: missing "${field}"`);
+    return undefined;
+  }
+  if (typeof v !== "string") {
+    issues.push(`${where}: "${field}" must be a string`);
+    return undefined;
+  }
+  if (!v.trim()) {
+    if (required) issues.push(`${where}: "${field}" is blank`);
+    return undefined;
+  }
+  // Catches stray tabs/newlines pasted into single-line fields.
+  if (field !== "description" && field !== "body" && (/[\t\r\n]/.test(v) || v !== v.trim())) {
+    issues.push(`${where}: "${field}" has stray whitespace (${JSON.stringify(v)})`);
+  }
+  return v.trim();
+}
+
+function list(raw: Raw, field: string, where: string, issues: string[]): unknown[] {
+  const v = raw[field];
+  if (v === undefined || v === null) return [];
+  if (!Array.isArray(v)) {
+    issues.push(`${where}: "${field}" must be a list`);
+    return [];
+  }
+  return v;
+}
+
+function url(v: unknown, where: string, issues: string[]): string | undefined {
+  if (typeof v === "string" && URL_OK.test(v)) return v;
+  issues.push(`${where}: ${JSON.stringify(v)} must be an http(s) URL or a /path`);
+  return undefined;
+}
+
+function optionalUrl(raw: Raw, field: string, where: string, issues: string[]): string | undefined {
+  const v = raw[field];
+  if (v === undefined || v === null || v === "") return undefined;
+  return url(v, `${where}: "${field}"`, issues);
+}
+
+function parseLinks(raw: Raw, where: string, issues: string[]): ItemLink[] {
+  return list(raw, "links", where, issues).flatMap((l, i) => {
+    const at = `${where}: links[${i}]`;
+    if (!isRecord(l) || !LINK_TYPES.includes(l.type as LinkType)) {
+      issues.push(`${at}: "type" must be one of ${LINK_TYPES.join(", ")}`);
+      return [];
+    }
+    const href = url(l.url, at, issues);
+    const label = text(l, "label", at, issues, false);
+    return href ? [{ type: l.type as LinkType, url: href, ...(label && { label }) }] : [];
+  });
+}
+
+function parseMedia(raw: Raw, where: string, issues: string[]): Media[] {
+  return list(raw, "media", where, issues).flatMap<Media>((m, i) => {
+    const at = `${where}: media[${i}]`;
+    if (!isRecord(m) || (m.type !== "image" && m.type !== "video")) {
+      issues.push(`${at}: "type" must be image or video`);
+      return [];
+    }
+    const src = url(m.src, at, issues);
+    const alt = text(m, "alt", at, issues, false);
+    if (!src) return [];
+    if (m.type === "image") return [{ type: "image", src, ...(alt && { alt }) }];
+    const poster = m.poster === undefined ? undefined : url(m.poster, at, issues);
+    return [{ type: "video", src, ...(poster && { poster }), ...(alt && { alt }) }];
+  });
+}
+
+function parseTags(raw: Raw, where: string, issues: string[]): string[] {
+  return list(raw, "tags", where, issues).flatMap((t) => {
+    if (typeof t === "string" && t.trim()) return [t.trim()];
+    issues.push(`${where}: tags must be non-empty strings (got ${JSON.stringify(t)})`);
+    return [];
+  });
+}
+
+export function parseItem(raw: unknown, where: string, issues: string[]): Item | null {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: item must be an object`);
+    return null;
+  }
+  const before = issues.length;
+  const id = text(raw, "id", where, issues, true);
+  if (id !== undefined && !SLUG.test(id)) {
+    issues.push(`${where}: id "${id}" must be a lowercase slug (a-z, 0-9, "-")`);
+  }
+  const title = text(raw, "title", where, issues, true);
+  const channel = raw.channel ?? 0;
+  if (!Number.isInteger(channel) || (channel as number) < 0 || (channel as number) > MAX_CHANNEL) {
+    issues.push(`${where}: channel ${JSON.stringify(raw.channel)} must be 0 (auto) or a whole number from 1 to ${MAX_CHANNEL}`);
+  }
+  const start = date(raw, "start", where, issues);
+  const end = date(raw, "end", where, issues);
+  if (end && !start) issues.push(`${where}: "end" needs a "start"`);
+  if (start && end && end.slice(0, 7) < start.slice(0, 7)) issues.push(`${where}: "end" (${end}) is before "start" (${start})`);
+  const item: Item = {
+    id: id ?? "",
+    title: title ?? "",
+    subtitle: text(raw, "subtitle", where, issues, false),
+    image: text(raw, "image", where, issues, false),
+    video: optionalUrl(raw, "video", where, issues),
+    poster: optionalUrl(raw, "poster", where, issues),
+    description: text(raw, "description", where, issues, false),
+    channel: channel as number, // 0 = auto, filled in by assignChannels
+    start,
+    end,
+    body: text(raw, "body", where, issues, false),
+    links: parseLinks(raw, where, issues),
+    tags: parseTags(raw, where, issues),
+    media: parseMedia(raw, where, issues),
+  };
+  return issues.length === before ? item : null;
+}
+
+/** A `<id>.<locale>` file: only the translatable fields, all optional. */
+export function parseItemText(raw: unknown, where: string, issues: string[]): ItemText | null {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: translation must be an object`);
+    return null;
+  }
+  const before = issues.length;
+  const allowed = ["title", "subtitle", "description", "body", "tags"];
+  const extra = Object.keys(raw).filter((k) => !allowed.includes(k));
+  if (extra.length) issues.push(`${where}: only ${allowed.join(", ")} can be translated (found ${extra.join(", ")})`);
+  const fields: ItemText = {
+    title: text(raw, "title", where, issues, false),
+    subtitle: text(raw, "subtitle", where, issues, false),
+    description: text(raw, "description", where, issues, false),
+    body: text(raw, "body", where, issues, false),
+    tags: raw.tags === undefined ? undefined : parseTags(raw, where, issues),
+  };
+  if (issues.length !== before) return null;
+  // Drop missing fields so spreading a translation never blanks the original.
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+}
+
+export const isTranslationLocale = (v: unknown) => isLocale(v) && v !== DEFAULT_LOCALE;
+
+function parseSectionTranslations(raw: Raw, where: string, issues: string[]): Section["translations"] {
+  const v = raw.translations;
+  if (v === undefined) return undefined;
+  if (!isRecord(v)) {
+    issues.push(`${where}: "translations" must map locales to { label }`);
+    return undefined;
+  }
+  const out: NonNullable<Section["translations"]> = {};
+  for (const [locale, t] of Object.entries(v)) {
+    const at = `${where}: translations.${locale}`;
+    if (!isTranslationLocale(locale)) {
+      issues.push(`${at}: unknown locale (expected one of ${LOCALES.filter((l) => l !== DEFAULT_LOCALE).join(", ")})`);
+    } else if (!isRecord(t)) {
+      issues.push(`${at}: must be an object`);
+    } else {
+      const label = text(t, "label", at, issues, true);
+      if (label) out[locale as keyof typeof out] = { label };
+    }
+  }
+  return out;
+}
+
+export function parseSection(raw: unknown, where: string, issues: string[]): Omit<Section, "items"> | null {
+  if (!isRecord(raw)) {
+    issues.push(`${where}: section must be an object`);
+    return null;
+  }
+  const before = issues.length;
+  const key = text(raw, "key", where, issues, true);
+  if (key !== undefined && !SLUG.test(key)) {
+    issues.push(`${where}: key "${key}" must be a lowercase slug (a-z, 0-9, "-")`);
+  } else if (key !== undefined && RESERVED_KEYS.includes(key)) {
+    issues.push(`${where}: key "${key}" is reserved`);
+  }
+  const label = text(raw, "label", where, issues, true);
+  if (!isAccent(raw.color)) {
+    issues.push(`${where}: unknown color ${JSON.stringify(raw.color)} (expected one of ${Object.keys(ACCENTS).join(", ")})`);
+  }
+  const translations = parseSectionTranslations(raw, where, issues);
+  if (issues.length !== before) return null;
+  return { key: key!, label: label!, color: raw.color as Section["color"], ...(translations && { translations }) };
+}
+
+/** Cross-section checks: unique keys, unique item ids, no empty rows. */
+export function checkSections(sections: Section[], issues: string[]) {
+  const keys = new Set<string>();
+  const ids = new Map<string, string>();
+  for (const section of sections) {
+    if (keys.has(section.key)) issues.push(`duplicate section key "${section.key}"`);
+    keys.add(section.key);
+    if (section.items.length === 0) issues.push(`section "${section.key}" has no items`);
+    for (const item of section.items) {
+      const owner = ids.get(item.id);
+      if (owner) issues.push(`duplicate item id "${item.id}" (in "${owner}" and "${section.key}")`);
+      else ids.set(item.id, section.key);
+    }
+  }
+}
+
+/**
+ * Gives every item without a pinned `channel` a number in its section's
+ * hundred block (About 101, 102…, Experience 201…), skipping pinned numbers.
+ * Pinned numbers must be unique.
+ */
+export function assignChannels(sections: Section[], issues: string[]) {
+  const taken = new Map<number, string>();
+  for (const section of sections) {
+    for (const item of section.items) {
+      if (!item.channel) continue;
+      const owner = taken.get(item.channel);
+      if (owner) issues.push(`duplicate channel ${item.channel} ("${owner}" and "${item.id}")`);
+      else taken.set(item.channel, item.id);
+    }
+  }
+  sections.forEach((section, r) => {
+    let next = (r + 1) * 100 + 1;
+    for (const item of section.items) {
+      if (item.channel) continue;
+      while (taken.has(next)) next++;
+      if (next > MAX_CHANNEL) {
+        issues.push(`no free channel number left for "${item.id}"`);
+        return;
+      }
+      item.channel = next;
+      taken.set(next, item.id);
+    }
+  });
+}
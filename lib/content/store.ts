@@ -0,0 +1,289 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import matter from "gray-matter";
+import { isAccent } from "../accents";
+import { fromJsonResume, RESUME_SECTIONS, type ResumeItem } from "../resume/jsonResume";
+import type { ItemLink } from "../types";
+import { ITEM_FIELDS, type DraftItem, type DraftSection } from "./draft";
+import { CONTENT_DIR, loadSectionsFrom } from "./load";
+import { readRedirects, REDIRECTS_FILE, withRenames, writeRedirects } from "./redirects";
+import { ContentError, RESERVED_KEYS, SLUG } from "./schema";
+
+/**
+ * Content store: writes for the admin editor
+ * ------------------------------------------------------
+ * Server-side only. A save rebuilds content/sections from a draft in a
+ * sibling directory, keeping each item's other fields, body and translation
+ * files, runs the normal loader over the result and only then swaps it in,
+ * so a rejected save leaves the content untouched. Renamed sections and
+ * items are recorded in content/redirects.json. A JSON Resume import goes
+ * through the same swap.
+ */
+
+export const UPLOAD_DIR = path.join(process.cwd(), "public", "uploads");
+
+export const MAX_UPLOAD = 5 * 1024 * 1024;
+
+// No SVG: it can carry scripts.
+const IMAGE_TYPES: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+};
+
+// Long strings stay on one line, like the hand-written files (lineWidth goes through to js-yaml).
+const markdown = (body: string, data: Record<string, unknown>) => matter.stringify(body, data, { lineWidth: -1 } as object).replace(/\n+$/, "\n");
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isText = (v: unknown) => typeof v === "string";
+
+/**
+ * The draft comes from the browser, so check its shape and every name that
+ * becomes a path before touching the disk. Field contents are left to the
+ * loader's validation.
+ */
+function checkDraft(raw: unknown, saved: Map<string, string[]>, issues: string[]): DraftSection[] {
+  if (!Array.isArray(raw)) {
+    issues.push("draft must be a list of sections");
+    return [];
+  }
+  const sections: DraftSection[] = [];
+  const keys = new Set<string>();
+  raw.forEach((s, r) => {
+    const at = `sections[${r}]`;
+    if (!isRecord(s) || !isText(s.key) || !isText(s.label) || !Array.isArray(s.items) || (s.was !== undefined && !isText(s.was))) {
+      issues.push(`${at}: malformed section`);
+      return;
+    }
+    const key = s.key as string;
+    const was = s.was as string | undefined;
+    if (!SLUG.test(key)) issues.push(`${at}: key "${key}" must be a lowercase slug (a-z, 0-9, "-")`);
+    else if (RESERVED_KEYS.includes(key)) issues.push(`${at}: key "${key}" is reserved`);
+    else if (keys.has(key)) issues.push(`${at}: duplicate section key "${key}"`);
+    keys.add(key);
+    if (!isAccent(s.color)) issues.push(`${at}: unknown color ${JSON.stringify(s.color)}`);
+    if (was !== undefined && !saved.has(was)) issues.push(`${at}: there is no saved section "${was}"`);
+    const items: DraftItem[] = [];
+    (s.items as unknown[]).forEach((i, c) => {
+      const where = `${at}.items[${c}]`;
+      if (!isRecord(i) || !isText(i.id) || !ITEM_FIELDS.every((f) => isText(i[f])) || (i.was !== undefined && !isText(i.was))) {
+        issues.push(`${where}: malformed item`);
+        return;
+      }
+      if (!SLUG.test(i.id as string)) issues.push(`${where}: id "${i.id}" must be a lowercase slug (a-z, 0-9, "-")`);
+      if (i.was !== undefined && !(was !== undefined && saved.get(was)?.includes(i.was as string))) {
+        issues.push(`${where}: there is no saved item "${i.was}" in "${was ?? key}"`);
+      }
+      items.push(i as DraftItem);
+    });
+    sections.push({ was, key, label: s.label as string, color: s.color as DraftSection["color"], items });
+  });
+  return sections;
+}
+
+/** `data` as it goes back into a file: frontmatter dates in YYYY-MM-DD form, no id (the file name is the id). */
+function plain(data: Record<string, unknown>) {
+  const out = Object.fromEntries(Object.entries(data).map(([k, v]) => [k, v instanceof Date ? v.toISOString().slice(0, 10) : v]));
+  delete out.id;
+  return out;
+}
+
+/** `data` with the drafted fields set (blank ones removed). */
+function withFields(data: Record<string, unknown>, item: DraftItem) {
+  const out = plain(data);
+  for (const field of ITEM_FIELDS) {
+    if (item[field].trim()) out[field] = item[field].trim();
+    else delete out[field];
+  }
+  return out;
+}
+
+const changed = (data: Record<string, unknown>, item: DraftItem) => ITEM_FIELDS.some((f) => (data[f] ?? "") !== item[f].trim());
+
+async function writeItem(from: string | null, to: string, item: DraftItem) {
+  if (!from || item.was === undefined) {
+    await fs.writeFile(path.join(to, `${item.id}.md`), markdown("", withFields({}, item)));
+    return;
+  }
+  // `<id>.md` / `.json` plus `<id>.<locale>.*` translations; ids have no dots.
+  const files = (await fs.readdir(from)).filter((f) => f.startsWith(`${item.was}.`));
+  for (const f of files) {
+    const rest = f.slice(item.was.length);
+    const src = path.join(from, f);
+    const dest = path.join(to, `${item.id}${rest}`);
+    const md = rest === ".md" ? matter(await fs.readFile(src, "utf8")) : null;
+    const data = md ? md.data : rest === ".json" ? JSON.parse(await fs.readFile(src, "utf8")) : null;
+    if (data && changed(data, item)) {
+      const fields = withFields(data, item);
+      await fs.writeFile(dest, md ? markdown(md.content, fields) : `${JSON.stringify(fields, null, 2)}\n`);
+    } else {
+      // Translations, and items whose fields weren't touched, are copied as they are.
+      await fs.copyFile(src, dest);
+    }
+  }
+}
+
+async function writeSections(root: string, out: string, draft: DraftSection[]) {
+  await fs.mkdir(out);
+  for (const [r, s] of draft.entries()) {
+    const dir = path.join(out, s.key);
+    const from = s.was === undefined ? null : path.join(root, s.was);
+    await fs.mkdir(dir);
+    const meta = from ? JSON.parse(await fs.readFile(path.join(from, "section.json"), "utf8")) : {};
+    const section = { ...meta, order: r + 1, label: s.label.trim(), color: s.color, items: s.items.map((i) => i.id) };
+    if (JSON.stringify(section) === JSON.stringify(meta)) await fs.copyFile(path.join(from!, "section.json"), path.join(dir, "section.json"));
+    else await fs.writeFile(path.join(dir, "section.json"), `${JSON.stringify(section, null, 2)}\n`);
+    for (const item of s.items) await writeItem(from, dir, item);
+  }
+}
+
+// Saves replace the whole content directory, so run them one at a time.
+let queue: Promise<unknown> = Promise.resolve();
+
+const enqueue = <T>(task: () => Promise<T>) => {
+  const run = queue.then(task);
+  queue = run.catch(() => {});
+  return run;
+};
+
+/** Builds the next content in a sibling directory, checks it loads, then swaps it in for `root`. */
+async function replaceContent(root: string, build: (next: string) => Promise<void>) {
+  const next = `${root}.saving`;
+  const old = `${root}.old`;
+  await fs.rm(next, { recursive: true, force: true });
+  try {
+    await build(next);
+    // Same checks as the build: unique keys/ids/channels, required fields…
+    await loadSectionsFrom(next);
+  } catch (e) {
+    await fs.rm(next, { recursive: true, force: true });
+    throw e;
+  }
+  await fs.rm(old, { recursive: true, force: true });
+  await fs.rename(root, old);
+  await fs.rename(next, root);
+  await fs.rm(old, { recursive: true, force: true });
+}
+
+/**
+ * Replaces the content under `root` with `draft`. Throws a ContentError
+ * listing every problem if the result would not load.
+ */
+export function saveDraft(raw: unknown, root = CONTENT_DIR, redirectsFile = REDIRECTS_FILE) {
+  return enqueue(async () => {
+    const saved = new Map((await loadSectionsFrom(root)).map((s) => [s.key, s.items.map((i) => i.id)]));
+    const issues: string[] = [];
+    const draft = checkDraft(raw, saved, issues);
+    if (issues.length) throw new ContentError(issues);
+
+    await replaceContent(root, (next) => writeSections(root, next, draft));
+
+    const renames = draft.flatMap((s) =>
+      s.items.flatMap((i): [string, string][] => (s.was !== undefined && i.was !== undefined && `${s.was}/${i.was}` !== `${s.key}/${i.id}` ? [[`${s.was}/${i.was}`, `${s.key}/${i.id}`]] : [])),
+    );
+    const live = new Set(draft.flatMap((s) => s.items.map((i) => `${s.key}/${i.id}`)));
+    const redirects = await readRedirects(redirectsFile);
+    if (renames.length || Object.keys(redirects).length) await writeRedirects(withRenames(redirects, renames, live), redirectsFile);
+  });
+}
+
+/** `data` with the résumé's fields laid over it; links are added to, not replaced, and an image already set stays. */
+function withResume(data: Record<string, unknown>, item: ResumeItem, keepTitle: boolean) {
+  // The callers put a new body in the Markdown content or the JSON `body`.
+  const out: Record<string, unknown> = { ...plain(data), ...item, body: data.body };
+  delete out.id;
+  if (out.body === undefined) delete out.body;
+  if (keepTitle && data.title) out.title = data.title;
+  if (data.image) out.image = data.image;
+  if (item.links) {
+    const had = Array.isArray(data.links) ? (data.links as ItemLink[]) : [];
+    out.links = [...had, ...item.links.filter((l) => !had.some((h) => h.url === l.url))];
+  }
+  return out;
+}
+
+async function writeResumeItem(dir: string, id: string, item: ResumeItem, keepTitle: boolean) {
+  const md = path.join(dir, `${id}.md`);
+  const json = path.join(dir, `${id}.json`);
+  const read = async (file: string) => fs.readFile(file, "utf8").catch((e: NodeJS.ErrnoException) => (e.code === "ENOENT" ? null : Promise.reject(e)));
+  const source = await read(md);
+  if (source !== null) {
+    const { data, content } = matter(source);
+    return fs.writeFile(md, markdown(item.body ?? content, withResume(data, item, keepTitle)));
+  }
+  const raw = await read(json);
+  if (raw !== null) {
+    const data = withResume(JSON.parse(raw), item, keepTitle);
+    if (item.body) data.body = item.body;
+    return fs.writeFile(json, `${JSON.stringify(data, null, 2)}\n`);
+  }
+  await fs.writeFile(md, markdown(item.body ?? "", withResume({}, item, false)));
+}
+
+export type ImportSummary = { added: number; updated: number };
+
+/**
+ * Lays a JSON Resume document over the content under `root`. Each résumé
+ * entry updates the item it names (same id, or same title on a first import;
+ * `basics` is always the first About item and keeps its title), keeping its
+ * other fields, translations and image; entries with no item are added.
+ * Items come in résumé order, ahead of the ones it doesn't mention, which
+ * stay. Missing sections are added at the end.
+ */
+export function importResume(raw: unknown, root = CONTENT_DIR): Promise<ImportSummary> {
+  return enqueue(async () => {
+    const imported = fromJsonResume(raw);
+    const saved = await loadSectionsFrom(root);
+    const summary: ImportSummary = { added: 0, updated: 0 };
+
+    await replaceContent(root, async (next) => {
+      await fs.cp(root, next, { recursive: true });
+      const ids = new Set(saved.flatMap((s) => s.items.map((i) => i.id)));
+      let order = saved.length;
+      for (const section of imported) {
+        const dir = path.join(next, section.key);
+        const have = saved.find((s) => s.key === section.key);
+        const metaFile = path.join(dir, "section.json");
+        const meta = have ? JSON.parse(await fs.readFile(metaFile, "utf8")) : { order: ++order, label: section.label, color: section.color, items: [] };
+        if (!have) await fs.mkdir(dir);
+        const basics = section.key === RESUME_SECTIONS.basics.key;
+        const placed: string[] = [];
+        for (const item of section.items) {
+          const free = have?.items.filter((i) => !placed.includes(i.id)) ?? [];
+          const match = basics ? have?.items[0] : (free.find((i) => i.id === item.id) ?? free.find((i) => i.title.toLowerCase() === item.title.toLowerCase()));
+          let id = match?.id ?? item.id;
+          if (!match) {
+            for (let k = 2; ids.has(id); k++) id = `${item.id}-${k}`;
+            ids.add(id);
+          }
+          await writeResumeItem(dir, id, item, basics && !!match);
+          placed.push(id);
+          summary[match ? "updated" : "added"]++;
+        }
+        meta.items = [...placed, ...(meta.items as string[]).filter((i) => !placed.includes(i))];
+        await fs.writeFile(metaFile, `${JSON.stringify(meta, null, 2)}\n`);
+      }
+    });
+    return summary;
+  });
+}
+
+/**
+ * Stores an uploaded image under public/uploads, named after its content so
+ * uploading the same file twice reuses it. Returns its site path.
+ */
+export async function saveUpload(file: File, dir = UPLOAD_DIR) {
+  const ext = IMAGE_TYPES[file.type];
+  if (!ext) throw new ContentError([`${file.name}: only ${Object.values(IMAGE_TYPES).join(", ")} images can be uploaded`]);
+  if (file.size > MAX_UPLOAD) throw new ContentError([`${file.name}: larger than ${MAX_UPLOAD / 1024 / 1024} MB`]);
+  const bytes = Buffer.from(await file.arrayBuffer());
+  const hash = createHash("sha256").update(bytes).digest("hex").slice(0, 10);
+  const base = path.parse(file.name).name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "image";
+  const name = `${base.slice(0, 40)}-${hash}.${ext}`;
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, name), bytes);
+  return `/uploads/${name}`;
+}
@@ -0,0 +1,97 @@
+import type { Item, Section } from "./types";
+
+/**
+ * Program guide (EPG) layout
+ * ------------------------------------------------------
+ * Rows are sections, columns are years, and each dated item is a block from
+ * its `start` to its `end` month (open-ended items run to "now"); overlapping
+ * blocks stack into extra tracks. Undated items sit in an "Anytime" lane
+ * before the timeline.
+ *
+ * Everything here is pure; `now` is passed in as a month index.
+ */
+
+/** Months since year 0, so ranges are plain integer arithmetic. */
+export function monthIndex(date: string) {
+  const [y, m] = date.split("-").map(Number);
+  return y * 12 + (m - 1);
+}
+
+export const monthOf = (d: Date) => d.getFullYear() * 12 + d.getMonth();
+
+// Undated items sort before every dated one, in content order.
+const UNDATED = -1e6;
+
+function position(item: Item, col: number) {
+  return item.start ? monthIndex(item.start) : UNDATED + col;
+}
+
+/** Column indices of a section's items in left-to-right guide order. */
+export function guideOrder(section: Section): number[] {
+  return section.items.map((_, col) => col).sort((a, b) => position(section.items[a], a) - position(section.items[b], b));
+}
+
+/** Moves focus within a row (by guide order) or to the nearest block in another row. */
+export function guideStep(sections: Section[], row: number, col: number, dir: "up" | "down" | "left" | "right") {
+  if (dir === "left" || dir === "right") {
+    const order = guideOrder(sections[row]);
+    const at = order.indexOf(col);
+    const next = order[Math.max(0, Math.min(order.length - 1, at + (dir === "right" ? 1 : -1)))];
+    return { row, col: next ?? col };
+  }
+  const from = position(sections[row].items[col], col);
+  for (let r = row + (dir === "down" ? 1 : -1); r >= 0 && r < sections.length; r += dir === "down" ? 1 : -1) {
+    const items = sections[r].items;
+    if (!items.length) continue;
+    let best = 0;
+    items.forEach((item, c) => {
+      if (Math.abs(position(item, c) - from) < Math.abs(position(items[best], best) - from)) best = c;
+    });
+    return { row: r, col: best };
+  }
+  return { row, col };
+}
+
+// `track` stacks overlapping blocks within a row (0 = top).
+export type GuideBlock = { col: number; from: number; to: number; track: number };
+
+export type GuideLayout = {
+  years: number[]; // timeline columns
+  start: number; // month index of the first column
+  months: number; // timeline length in months
+  lane: number; // widest "Anytime" lane, in blocks
+  rows: { undated: number[]; blocks: GuideBlock[]; tracks: number }[];
+};
+
+export function guideLayout(sections: Section[], now: number): GuideLayout {
+  const rows = sections.map((section) => {
+    const undated: number[] = [];
+    const blocks: GuideBlock[] = [];
+    section.items.forEach((item, col) => {
+      if (!item.start) return undated.push(col);
+      const from = monthIndex(item.start);
+      blocks.push({ col, from, to: Math.max(from + 1, item.end ? monthIndex(item.end) + 1 : now + 1), track: 0 });
+    });
+    // Greedy interval packing: each block takes the first track that's free.
+    const ends: number[] = [];
+    for (const b of [...blocks].sort((x, y) => x.from - y.from)) {
+      b.track = ends.findIndex((end) => end <= b.from);
+      if (b.track < 0) b.track = ends.length;
+      ends[b.track] = b.to;
+    }
+    return { undated, blocks, tracks: Math.max(1, ends.length) };
+  });
+
+  const dated = rows.flatMap((r) => r.blocks);
+  const first = Math.floor((dated.length ? Math.min(...dated.map((b) => b.from)) : now) / 12);
+  const last = Math.floor((dated.length ? Math.max(...dated.map((b) => b.to - 1)) : now) / 12);
+  const years = Array.from({ length: last - first + 1 }, (_, i) => first + i);
+
+  return {
+    years,
+    start: first * 12,
+    months: years.length * 12,
+    lane: Math.max(0, ...rows.map((r) => r.undated.length)),
+    rows,
+  };
+}
@@ -0,0 +1,23 @@
+import type { Section } from "../types";
+import { DEFAULT_LOCALE, type Locale } from "./locales";
+
+// One localized copy per (sections, locale), so memoized consumers such as
+// the search index see a stable array.
+const localized = new WeakMap<Section[], Map<Locale, Section[]>>();
+
+/** Sections with labels and item text in `locale`, falling back field by field to the default locale. */
+export function localizeSections(sections: Section[], locale: Locale): Section[] {
+  if (locale === DEFAULT_LOCALE) return sections;
+  let byLocale = localized.get(sections);
+  if (!byLocale) localized.set(sections, (byLocale = new Map()));
+  let out = byLocale.get(locale);
+  if (!out) {
+    out = sections.map((section) => ({
+      ...section,
+      label: section.translations?.[locale]?.label ?? section.label,
+      items: section.items.map((item) => ({ ...item, ...item.translations?.[locale] })),
+    }));
+    byLocale.set(locale, out);
+  }
+  return out;
+}
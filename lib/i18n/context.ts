@@ -0,0 +1,14 @@
+import { createContext, useContext } from "react";
+import { DEFAULT_LOCALE, isRtl, type Locale } from "./locales";
+import { translate, type MessageKey, type Vars } from "./messages";
+
+export type I18n = { locale: Locale; dir: "ltr" | "rtl"; t: (key: MessageKey, vars?: Vars) => string };
+
+export function i18nFor(locale: Locale): I18n {
+  return { locale, dir: isRtl(locale) ? "rtl" : "ltr", t: (key, vars) => translate(locale, key, vars) };
+}
+
+/** Provided by TVPortfolio; components rendered on their own get the default locale. */
+export const I18nContext = createContext<I18n>(i18nFor(DEFAULT_LOCALE));
+
+export const useI18n = () => useContext(I18nContext);
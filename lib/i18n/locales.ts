@@ -0,0 +1,44 @@
+/**
+ * Locales
+ * ------------------------------------------------------
+ * Content and UI default to `DEFAULT_LOCALE`; other locales fall back to it
+ * string by string. The active locale lives in the URL as `?lang=<code>`
+ * (omitted for the default) so links keep their language.
+ */
+
+export const LOCALES = ["en", "es", "ar"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each language's own name, for the Remote's language button. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  ar: "العربية",
+};
+
+const RTL: Locale[] = ["ar"];
+
+export const isLocale = (v: unknown): v is Locale => LOCALES.includes(v as Locale);
+
+export const isRtl = (locale: Locale) => RTL.includes(locale);
+
+export const LOCALE_PARAM = "lang";
+
+export function localeFromSearch(search: string): Locale {
+  const lang = new URLSearchParams(search).get(LOCALE_PARAM);
+  return isLocale(lang) ? lang : DEFAULT_LOCALE;
+}
+
+/** Adds `?lang=` to an app path (which may already have a query string). */
+export function withLocale(path: string, locale: Locale) {
+  if (locale === DEFAULT_LOCALE) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}${LOCALE_PARAM}=${locale}`;
+}
+
+/**
+ * Inlined in <head> (app/layout.tsx) so `<html lang dir>` match `?lang=`
+ * before first paint; TVPortfolio keeps them in sync afterwards.
+ */
+export const LOCALE_SCRIPT = `try{var l=new URLSearchParams(location.search).get(${JSON.stringify(LOCALE_PARAM)});if(${JSON.stringify(LOCALES)}.indexOf(l)>=0){document.documentElement.lang=l;document.documentElement.dir=${JSON.stringify(RTL)}.indexOf(l)>=0?"rtl":"ltr"}}catch(e){}`;
@@ -0,0 +1,454 @@
+import { DEFAULT_LOCALE, type Locale } from "./locales";
+
+/**
+ * UI message catalog. English is the source of truth: every key lives in
+ * `en`, other locales may leave keys out and fall back to it. `{name}`
+ * placeholders are filled from `vars`.
+ */
+
+const en = {
+  "home.title": "Ayaan TV",
+  "home.hint": "Use arrows / remote · Enter to open",
+  "home.grid": "Channels",
+  "tile.channel": "channel {n}",
+
+  "channel.region": "Channel {n}",
+  "channel.back": "Back",
+  "channel.details": "View Details",
+  "channel.previous": "Previous",
+  "channel.next": "Next",
+  "channel.myList": "My List",
+
+  "shelf.continue": "Continue Watching",
+  "shelf.my-list": "My List",
+  "shelf.because": "Because you viewed {title}",
+
+  "detail.label": "{title} details",
+  "detail.back": "Back to channel",
+  "link.repo": "Source",
+  "link.demo": "Live demo",
+  "link.paper": "Paper",
+  "link.site": "Website",
+
+  "banner.missing": "No channel",
+
+  "guide.title": "Guide",
+  "guide.region": "Program guide",
+  "guide.hint": "Arrows to browse · Enter to watch · G / Back to close",
+  "guide.anytime": "Anytime",
+  "guide.now": "Now",
+
+  "search.region": "Search",
+  "search.placeholder": "Search titles, tags, descriptions…",
+  "search.hint": "Type or use the keyboard",
+  "search.found": "{n} found",
+  "search.keyboard": "On-screen keyboard",
+  "search.results": "Search results",
+  "search.resultsRow": "Results",
+  "search.resultsFor": "Results for “{query}”",
+  "search.none": "No matches for “{query}”.",
+  "search.space": "Space",
+  "search.delete": "Delete",
+  "search.clear": "Clear",
+
+  "settings.title": "Settings",
+  "settings.theme": "TV style",
+  "settings.controls": "Controls",
+  "settings.keys": "Key bindings…",
+  "settings.pair": "Use a phone as remote…",
+  "settings.history": "Your rows",
+  "settings.clearHistory": "Clear Continue Watching and My List",
+  "theme.system": "Match system",
+  "theme.crt": "Retro CRT",
+  "theme.oled": "Modern OLED",
+  "theme.light": "Light",
+
+  "pair.title": "Phone remote",
+  "pair.scan": "Scan the code with your phone's camera, or open {url} and enter:",
+  "pair.qr": "QR code for {url}",
+  "pair.opening": "Starting…",
+  "pair.waiting": "Waiting for a phone…",
+  "pair.connected": "Phone connected",
+  "pair.lost": "Connection lost, reconnecting…",
+  "pair.failed": "Couldn't start pairing.",
+  "pair.retry": "Try again",
+  "pair.stop": "Unpair",
+  "pair.done": "Done",
+
+  "phone.title": "TV Remote",
+  "phone.enter": "Enter the code shown on the TV",
+  "phone.code": "Pairing code",
+  "phone.connect": "Connect",
+  "phone.connecting": "Connecting…",
+  "phone.connected": "Connected to TV {code}",
+  "phone.tvAway": "The TV isn't listening. Is its page still open?",
+  "phone.ended": "The TV ended this session.",
+  "phone.invalid": "No TV is using code {code}.",
+  "phone.disconnect": "Disconnect",
+
+  "remote.show": "Show Remote",
+  "remote.hide": "Hide Remote",
+  "remote.label": "Remote control",
+  "remote.home": "Home",
+  "remote.back": "Back",
+  "remote.settings": "Settings",
+  "remote.language": "Language: {name}",
+  "remote.up": "Up",
+  "remote.down": "Down",
+  "remote.left": "Left",
+  "remote.right": "Right",
+  "remote.ok": "OK",
+  "remote.guide": "Guide",
+  "remote.search": "Search",
+  "remote.channelUp": "Channel up",
+  "remote.channelDown": "Channel down",
+  "remote.rewind": "Rewind",
+  "remote.playPause": "Play or pause",
+  "remote.fastForward": "Fast-forward",
+  "remote.mute": "Mute",
+  "remote.favorite": "Add to or remove from My List",
+
+  "video.back": "Back {n} seconds",
+  "video.forward": "Forward {n} seconds",
+  "video.play": "Play",
+  "video.pause": "Pause",
+  "video.mute": "Mute",
+  "video.unmute": "Unmute",
+
+  "keys.title": "Key Bindings",
+  "keys.close": "Close",
+  "keys.change": "Change",
+  "keys.listening": "Press a key…",
+  "keys.reset": "Reset to defaults",
+  "keys.done": "Done",
+  "command.up": "Up",
+  "command.down": "Down",
+  "command.left": "Left",
+  "command.right": "Right",
+  "command.ok": "OK / Open",
+  "command.back": "Back",
+  "command.home": "Home",
+  "command.guide": "Guide",
+  "command.search": "Search",
+  "command.channelUp": "Channel +",
+  "command.channelDown": "Channel −",
+  "command.favorite": "My List",
+  "command.playPause": "Play / Pause",
+  "command.mute": "Mute",
+  "command.seekBack": "Rewind",
+  "command.seekForward": "Fast-forward",
+
+  "announce.channel": "Channel {n}: {title}, {label}",
+  "announce.missing": "No channel {n}",
+  "announce.home": "Home",
+  "announce.guide": "Program guide",
+  "announce.search": "Search",
+  "announce.settings": "Settings",
+  "announce.detail": "Details",
+  "announce.paired": "Phone remote connected",
+  "announce.unpaired": "Phone remote disconnected",
+  "announce.listAdded": "{title} added to My List",
+  "announce.listRemoved": "{title} removed from My List",
+  "announce.historyCleared": "Continue Watching and My List cleared",
+
+  "offline.noSignal": "No Signal",
+  "offline.hint": "You're offline and this hasn't been saved for offline viewing yet.",
+  "update.ready": "New channels are available.",
+  "update.reload": "Reload",
+  "update.later": "Later",
+
+  "attract.hint": "Press any key to take over",
+
+  "footer.note": "© {year} Ayaan · Built with Next.js",
+  "footer.resume": "Printable résumé",
+};
+
+export type MessageKey = keyof typeof en;
+type Catalog = Partial<Record<MessageKey, string>>;
+
+const es: Catalog = {
+  "home.hint": "Usa las flechas / el mando · Enter para abrir",
+  "home.grid": "Canales",
+  "tile.channel": "canal {n}",
+  "channel.region": "Canal {n}",
+  "channel.back": "Volver",
+  "channel.details": "Ver detalles",
+  "channel.previous": "Anterior",
+  "channel.next": "Siguiente",
+  "channel.myList": "Mi lista",
+  "shelf.continue": "Seguir viendo",
+  "shelf.my-list": "Mi lista",
+  "shelf.because": "Porque viste {title}",
+  "detail.label": "Detalles de {title}",
+  "detail.back": "Volver al canal",
+  "link.repo": "Código",
+  "link.demo": "Demo",
+  "link.paper": "Artículo",
+  "link.site": "Sitio web",
+  "banner.missing": "Sin canal",
+  "guide.title": "Guía",
+  "guide.region": "Guía de programación",
+  "guide.hint": "Flechas para explorar · Enter para ver · G / Volver para cerrar",
+  "guide.anytime": "Sin fecha",
+  "guide.now": "Hoy",
+  "search.region": "Buscar",
+  "search.placeholder": "Busca títulos, etiquetas, descripciones…",
+  "search.hint": "Escribe o usa el teclado",
+  "search.found": "{n} resultados",
+  "search.keyboard": "Teclado en pantalla",
+  "search.results": "Resultados de búsqueda",
+  "search.resultsRow": "Resultados",
+  "search.resultsFor": "Resultados para “{query}”",
+  "search.none": "Nada coincide con “{query}”.",
+  "search.space": "Espacio",
+  "search.delete": "Borrar",
+  "search.clear": "Limpiar",
+  "settings.title": "Ajustes",
+  "settings.theme": "Estilo de TV",
+  "settings.controls": "Controles",
+  "settings.keys": "Atajos de teclado…",
+  "settings.pair": "Usar el móvil como mando…",
+  "settings.history": "Tus filas",
+  "settings.clearHistory": "Borrar Seguir viendo y Mi lista",
+  "theme.system": "Según el sistema",
+  "theme.crt": "CRT retro",
+  "theme.oled": "OLED moderno",
+  "theme.light": "Claro",
+  "pair.title": "Mando en el móvil",
+  "pair.scan": "Escanea el código con la cámara del móvil, o abre {url} e introduce:",
+  "pair.qr": "Código QR de {url}",
+  "pair.opening": "Iniciando…",
+  "pair.waiting": "Esperando un móvil…",
+  "pair.connected": "Móvil conectado",
+  "pair.lost": "Conexión perdida, reconectando…",
+  "pair.failed": "No se pudo iniciar el emparejamiento.",
+  "pair.retry": "Reintentar",
+  "pair.stop": "Desvincular",
+  "pair.done": "Listo",
+  "phone.title": "Mando de TV",
+  "phone.enter": "Introduce el código que aparece en la TV",
+  "phone.code": "Código de emparejamiento",
+  "phone.connect": "Conectar",
+  "phone.connecting": "Conectando…",
+  "phone.connected": "Conectado a la TV {code}",
+  "phone.tvAway": "La TV no responde. ¿Sigue abierta su página?",
+  "phone.ended": "La TV cerró esta sesión.",
+  "phone.invalid": "Ninguna TV usa el código {code}.",
+  "phone.disconnect": "Desconectar",
+  "remote.show": "Mostrar mando",
+  "remote.hide": "Ocultar mando",
+  "remote.label": "Mando a distancia",
+  "remote.home": "Inicio",
+  "remote.back": "Volver",
+  "remote.settings": "Ajustes",
+  "remote.language": "Idioma: {name}",
+  "remote.up": "Arriba",
+  "remote.down": "Abajo",
+  "remote.left": "Izquierda",
+  "remote.right": "Derecha",
+  "remote.guide": "Guía",
+  "remote.search": "Buscar",
+  "remote.channelUp": "Canal siguiente",
+  "remote.channelDown": "Canal anterior",
+  "remote.rewind": "Retroceder",
+  "remote.playPause": "Reproducir o pausar",
+  "remote.fastForward": "Avanzar",
+  "remote.mute": "Silenciar",
+  "remote.favorite": "Añadir a Mi lista o quitar",
+  "video.back": "Retroceder {n} segundos",
+  "video.forward": "Avanzar {n} segundos",
+  "video.play": "Reproducir",
+  "video.pause": "Pausar",
+  "video.mute": "Silenciar",
+  "video.unmute": "Activar sonido",
+  "keys.title": "Atajos de teclado",
+  "keys.close": "Cerrar",
+  "keys.change": "Cambiar",
+  "keys.listening": "Pulsa una tecla…",
+  "keys.reset": "Restablecer",
+  "keys.done": "Listo",
+  "command.up": "Arriba",
+  "command.down": "Abajo",
+  "command.left": "Izquierda",
+  "command.right": "Derecha",
+  "command.ok": "OK / Abrir",
+  "command.back": "Volver",
+  "command.home": "Inicio",
+  "command.guide": "Guía",
+  "command.search": "Buscar",
+  "command.channelUp": "Canal +",
+  "command.channelDown": "Canal −",
+  "command.favorite": "Mi lista",
+  "command.playPause": "Reproducir / Pausar",
+  "command.mute": "Silenciar",
+  "command.seekBack": "Retroceder",
+  "command.seekForward": "Avanzar",
+  "announce.channel": "Canal {n}: {title}, {label}",
+  "announce.missing": "No existe el canal {n}",
+  "announce.home": "Inicio",
+  "announce.guide": "Guía de programación",
+  "announce.search": "Buscar",
+  "announce.settings": "Ajustes",
+  "announce.detail": "Detalles",
+  "announce.paired": "Mando del móvil conectado",
+  "announce.unpaired": "Mando del móvil desconectado",
+  "announce.listAdded": "{title} añadido a Mi lista",
+  "announce.listRemoved": "{title} quitado de Mi lista",
+  "announce.historyCleared": "Seguir viendo y Mi lista borrados",
+  "offline.noSignal": "Sin señal",
+  "offline.hint": "Estás sin conexión y esto aún no se ha guardado para verlo sin conexión.",
+  "update.ready": "Hay canales nuevos disponibles.",
+  "update.reload": "Recargar",
+  "update.later": "Más tarde",
+  "attract.hint": "Pulsa cualquier tecla para tomar el control",
+  "footer.note": "© {year} Ayaan · Hecho con Next.js",
+  "footer.resume": "Currículum para imprimir",
+};
+
+const ar: Catalog = {
+  "home.hint": "استخدم الأسهم / جهاز التحكم · Enter للفتح",
+  "home.grid": "القنوات",
+  "tile.channel": "القناة {n}",
+  "channel.region": "القناة {n}",
+  "channel.back": "رجوع",
+  "channel.myList": "قائمتي",
+  "shelf.continue": "متابعة المشاهدة",
+  "shelf.my-list": "قائمتي",
+  "shelf.because": "لأنك شاهدت {title}",
+  "channel.details": "عرض التفاصيل",
+  "channel.previous": "السابق",
+  "channel.next": "التالي",
+  "detail.label": "تفاصيل {title}",
+  "detail.back": "العودة إلى القناة",
+  "link.repo": "الشيفرة المصدرية",
+  "link.demo": "عرض مباشر",
+  "link.paper": "ورقة بحثية",
+  "link.site": "الموقع",
+  "banner.missing": "لا توجد قناة",
+  "guide.title": "الدليل",
+  "guide.region": "دليل البرامج",
+  "guide.hint": "الأسهم للتصفح · Enter للمشاهدة · G / رجوع للإغلاق",
+  "guide.anytime": "دون تاريخ",
+  "guide.now": "الآن",
+  "search.region": "بحث",
+  "search.placeholder": "ابحث في العناوين والوسوم والأوصاف…",
+  "search.hint": "اكتب أو استخدم لوحة المفاتيح",
+  "search.found": "{n} نتيجة",
+  "search.keyboard": "لوحة المفاتيح على الشاشة",
+  "search.results": "نتائج البحث",
+  "search.resultsRow": "النتائج",
+  "search.resultsFor": "نتائج «{query}»",
+  "search.none": "لا توجد نتائج لـ«{query}».",
+  "search.space": "مسافة",
+  "search.delete": "حذف",
+  "search.clear": "مسح",
+  "settings.title": "الإعدادات",
+  "settings.theme": "مظهر التلفاز",
+  "settings.controls": "التحكم",
+  "settings.keys": "اختصارات المفاتيح…",
+  "settings.pair": "استخدام الهاتف كجهاز تحكم…",
+  "settings.history": "صفوفك",
+  "settings.clearHistory": "مسح متابعة المشاهدة وقائمتي",
+  "theme.system": "حسب النظام",
+  "theme.crt": "CRT كلاسيكي",
+  "theme.oled": "OLED حديث",
+  "theme.light": "فاتح",
+  "pair.title": "التحكم من الهاتف",
+  "pair.scan": "امسح الرمز بكاميرا هاتفك، أو افتح {url} وأدخل:",
+  "pair.qr": "رمز QR لـ {url}",
+  "pair.opening": "جارٍ البدء…",
+  "pair.waiting": "في انتظار هاتف…",
+  "pair.connected": "الهاتف متصل",
+  "pair.lost": "انقطع الاتصال، جارٍ إعادة الاتصال…",
+  "pair.failed": "تعذّر بدء الاقتران.",
+  "pair.retry": "إعادة المحاولة",
+  "pair.stop": "إلغاء الاقتران",
+  "pair.done": "تم",
+  "phone.title": "جهاز تحكم التلفاز",
+  "phone.enter": "أدخل الرمز الظاهر على التلفاز",
+  "phone.code": "رمز الاقتران",
+  "phone.connect": "اتصال",
+  "phone.connecting": "جارٍ الاتصال…",
+  "phone.connected": "متصل بالتلفاز {code}",
+  "phone.tvAway": "التلفاز لا يستجيب. هل صفحته ما زالت مفتوحة؟",
+  "phone.ended": "أنهى التلفاز هذه الجلسة.",
+  "phone.invalid": "لا يوجد تلفاز يستخدم الرمز {code}.",
+  "phone.disconnect": "قطع الاتصال",
+  "remote.show": "إظهار جهاز التحكم",
+  "remote.hide": "إخفاء جهاز التحكم",
+  "remote.label": "جهاز التحكم",
+  "remote.home": "الرئيسية",
+  "remote.back": "رجوع",
+  "remote.settings": "الإعدادات",
+  "remote.language": "اللغة: {name}",
+  "remote.up": "أعلى",
+  "remote.down": "أسفل",
+  "remote.left": "يسار",
+  "remote.right": "يمين",
+  "remote.ok": "موافق",
+  "remote.guide": "الدليل",
+  "remote.search": "بحث",
+  "remote.channelUp": "القناة التالية",
+  "remote.channelDown": "القناة السابقة",
+  "remote.rewind": "ترجيع",
+  "remote.playPause": "تشغيل أو إيقاف مؤقت",
+  "remote.fastForward": "تقديم سريع",
+  "remote.mute": "كتم الصوت",
+  "remote.favorite": "إضافة إلى قائمتي أو إزالة منها",
+  "video.back": "رجوع {n} ثوانٍ",
+  "video.forward": "تقديم {n} ثوانٍ",
+  "video.play": "تشغيل",
+  "video.pause": "إيقاف مؤقت",
+  "video.mute": "كتم الصوت",
+  "video.unmute": "إلغاء الكتم",
+  "keys.title": "اختصارات المفاتيح",
+  "keys.close": "إغلاق",
+  "keys.change": "تغيير",
+  "keys.listening": "اضغط مفتاحًا…",
+  "keys.reset": "استعادة الافتراضي",
+  "keys.done": "تم",
+  "command.up": "أعلى",
+  "command.down": "أسفل",
+  "command.left": "يسار",
+  "command.right": "يمين",
+  "command.ok": "موافق / فتح",
+  "command.back": "رجوع",
+  "command.home": "الرئيسية",
+  "command.guide": "الدليل",
+  "command.search": "بحث",
+  "command.channelUp": "القناة +",
+  "command.channelDown": "القناة −",
+  "command.favorite": "قائمتي",
+  "command.playPause": "تشغيل / إيقاف مؤقت",
+  "command.mute": "كتم الصوت",
+  "command.seekBack": "ترجيع",
+  "command.seekForward": "تقديم سريع",
+  "announce.channel": "القناة {n}: {title}، {label}",
+  "announce.missing": "لا توجد القناة {n}",
+  "announce.home": "الرئيسية",
+  "announce.guide": "دليل البرامج",
+  "announce.search": "بحث",
+  "announce.settings": "الإعدادات",
+  "announce.detail": "التفاصيل",
+  "announce.paired": "تم توصيل جهاز التحكم من الهاتف",
+  "announce.unpaired": "انقطع جهاز التحكم من الهاتف",
+  "announce.listAdded": "أُضيف {title} إلى قائمتي",
+  "announce.listRemoved": "أُزيل {title} من قائمتي",
+  "offline.noSignal": "لا توجد إشارة",
+  "offline.hint": "أنت غير متصل، ولم يُحفظ هذا للمشاهدة دون اتصال بعد.",
+  "update.ready": "تتوفر قنوات جديدة.",
+  "update.reload": "إعادة التحميل",
+  "update.later": "لاحقًا",
+  "attract.hint": "اضغط أي زر للتحكم",
+  "footer.note": "© {year} أيان · صُنع باستخدام Next.js",
+  "footer.resume": "سيرة ذاتية للطباعة",
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, ar };
+
+export type Vars = Record<string, string | number>;
+
+export function translate(locale: Locale, key: MessageKey, vars?: Vars): string {
+  const message = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+  return vars ? message.replace(/\{(\w+)\}/g, (m, name: string) => (name in vars ? String(vars[name]) : m)) : message;
+}
@@ -0,0 +1,45 @@
+import { getImageProps } from "next/image";
+import { preload } from "react-dom";
+import { IMAGE_HOSTS } from "./site";
+import type { Section } from "./types";
+
+/** `sizes` for a rail tile (w-56) and for the full TV screen (max-w-6xl). */
+export const TILE_SIZES = "14rem";
+export const SCREEN_SIZES = "(min-width: 72rem) 72rem, 100vw";
+
+/** Local images and the hosts in next.config.ts go through the optimizer; anything else is used as is. */
+export function isOptimizable(src: string) {
+  if (src.startsWith("/")) return !src.startsWith("//");
+  try {
+    const url = new URL(src);
+    return url.protocol === "https:" && IMAGE_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Images one move away from (row, col): left and right in the row and, with
+ * `rows`, the first tile of the rows above and below (where up/down lands on
+ * the home screen).
+ */
+export function neighborImages(sections: Section[], row: number, col: number, rows: boolean) {
+  const items = [sections[row]?.items[col - 1], sections[row]?.items[col + 1]];
+  if (rows) items.push(sections[row - 1]?.items[0], sections[row + 1]?.items[0]);
+  return items.flatMap((item) => {
+    const src = item?.image ?? item?.poster;
+    return src ? [src] : [];
+  });
+}
+
+/** Warms the cache with the same srcset next/image will pick from, so surfing shows no blank frames. */
+export function preloadImages(srcs: string[], sizes: string) {
+  for (const src of srcs) {
+    if (!isOptimizable(src)) {
+      preload(src, { as: "image", fetchPriority: "low" });
+      continue;
+    }
+    const { props } = getImageProps({ src, alt: "", fill: true, sizes });
+    preload(props.src, { as: "image", imageSrcSet: props.srcSet, imageSizes: props.sizes, fetchPriority: "low" });
+  }
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/** How long to wait for the next digit before tuning. */
+export const ENTRY_TIMEOUT = 1500;
+
+/**
+ * Buffers channel digits like a TV: tunes after a pause, as soon as
+ * `maxDigits` digits are in, or immediately on `commit` (OK/Enter).
+ */
+export function useChannelEntry(onTune: (channel: number) => void, maxDigits: number) {
+  const [digits, setDigits] = useState("");
+  const buffer = useRef("");
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const tune = useRef(onTune);
+  useEffect(() => {
+    tune.current = onTune;
+  });
+
+  const commit = useCallback(() => {
+    clearTimeout(timer.current);
+    const value = buffer.current;
+    buffer.current = "";
+    setDigits("");
+    if (value) tune.current(Number(value));
+  }, []);
+
+  const push = useCallback(
+    (n: number) => {
+      clearTimeout(timer.current);
+      buffer.current = (buffer.current + n).slice(-maxDigits);
+      setDigits(buffer.current);
+      if (buffer.current.length >= maxDigits) commit();
+      else timer.current = setTimeout(commit, ENTRY_TIMEOUT);
+    },
+    [maxDigits, commit],
+  );
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return { digits, push, commit };
+}
@@ -0,0 +1,86 @@
+import type { Command } from "../navigation";
+import { HOLD_MS, isDirection, REPEAT_MS, repeatCommand } from "./repeat";
+
+/**
+ * Gamepad API source. Uses the "standard" mapping: D-pad 12–15, A = 0,
+ * B = 1, Y = 3 (My List), LB/RB = 4/5 (channel −/+), Select = 8 (guide),
+ * Start = 9 and the Home/Guide button = 16. The left stick also
+ * steers once pushed past the dead zone. Commands fire on press; a held
+ * direction repeats, accelerating (lib/input/repeat.ts).
+ */
+
+const BUTTONS: Record<number, Command> = {
+  0: { type: "ok" },
+  1: { type: "back" },
+  3: { type: "favorite" },
+  4: { type: "channelDown" },
+  5: { type: "channelUp" },
+  8: { type: "guide" },
+  9: { type: "home" },
+  12: { type: "up" },
+  13: { type: "down" },
+  14: { type: "left" },
+  15: { type: "right" },
+  16: { type: "home" },
+};
+
+const DEAD_ZONE = 0.6;
+
+function stickCommand(pad: Gamepad): Command | null {
+  const [x = 0, y = 0] = pad.axes;
+  if (Math.abs(x) < DEAD_ZONE && Math.abs(y) < DEAD_ZONE) return null;
+  if (Math.abs(x) > Math.abs(y)) return { type: x > 0 ? "right" : "left" };
+  return { type: y > 0 ? "down" : "up" };
+}
+
+/** Starts polling connected gamepads; returns a cleanup function. */
+export function watchGamepads(onCommand: (cmd: Command) => void) {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return () => {};
+
+  // What each button or stick ("pad:button", "pad:stick") is holding down, and since when.
+  const held = new Map<string, { cmd: Command; since: number; last: number }>();
+  let frame = 0;
+
+  const hold = (id: string, cmd: Command | null, now: number) => {
+    const h = held.get(id);
+    if (!cmd) return void held.delete(id);
+    if (!h || h.cmd.type !== cmd.type) {
+      held.set(id, { cmd, since: now, last: now });
+      return onCommand(cmd);
+    }
+    if (isDirection(cmd) && now - h.since >= HOLD_MS && now - h.last >= REPEAT_MS) {
+      h.last = now;
+      repeatCommand(cmd, now - h.since, onCommand);
+    }
+  };
+
+  const poll = (now: number) => {
+    for (const pad of navigator.getGamepads()) {
+      if (!pad) continue;
+      pad.buttons.forEach((b, i) => {
+        if (BUTTONS[i]) hold(`${pad.index}:${i}`, b.pressed ? BUTTONS[i] : null, now);
+      });
+      hold(`${pad.index}:stick`, stickCommand(pad), now);
+    }
+    frame = requestAnimationFrame(poll);
+  };
+
+  const start = () => {
+    if (!frame) frame = requestAnimationFrame(poll);
+  };
+  const stop = () => {
+    if (navigator.getGamepads().some(Boolean)) return;
+    cancelAnimationFrame(frame);
+    frame = 0;
+  };
+
+  // Only poll while a pad is connected; some browsers already list one.
+  if (navigator.getGamepads().some(Boolean)) start();
+  window.addEventListener("gamepadconnected", start);
+  window.addEventListener("gamepaddisconnected", stop);
+  return () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener("gamepadconnected", start);
+    window.removeEventListener("gamepaddisconnected", stop);
+  };
+}
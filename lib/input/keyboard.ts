@@ -0,0 +1,74 @@
+import type { Command } from "../navigation";
+
+/**
+ * Keyboard bindings. Each bindable command maps to a list of
+ * `KeyboardEvent.key` values; digits always map to `number`.
+ * User edits are persisted to localStorage.
+ */
+
+export const BINDABLE = ["up", "down", "left", "right", "ok", "back", "home", "guide", "search", "channelUp", "channelDown", "favorite", "playPause", "mute", "seekBack", "seekForward"] as const;
+export type Bindable = (typeof BINDABLE)[number];
+export type KeyBindings = Record<Bindable, string[]>;
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  up: ["ArrowUp"],
+  down: ["ArrowDown"],
+  left: ["ArrowLeft"],
+  right: ["ArrowRight"],
+  ok: ["Enter", " "],
+  back: ["Backspace", "Escape"],
+  home: ["Home"],
+  guide: ["g", "G"],
+  search: ["/"],
+  channelUp: ["PageUp"],
+  channelDown: ["PageDown"],
+  favorite: ["f", "F"],
+  playPause: ["k", "K", "MediaPlayPause"],
+  mute: ["m", "M"],
+  seekBack: ["j", "J", "MediaTrackPrevious"],
+  seekForward: ["l", "L", "MediaTrackNext"],
+};
+
+const STORAGE_KEY = "tv-portfolio:keybindings";
+
+export function loadBindings(): KeyBindings {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!raw || typeof raw !== "object") return DEFAULT_BINDINGS;
+    const merged = { ...DEFAULT_BINDINGS };
+    for (const cmd of BINDABLE) {
+      const keys = raw[cmd];
+      if (Array.isArray(keys) && keys.every((k) => typeof k === "string")) merged[cmd] = keys;
+    }
+    return merged;
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+}
+
+export function saveBindings(bindings: KeyBindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch {
+    // Private mode / quota: bindings just won't persist.
+  }
+}
+
+/** Rebind `cmd` to a single key, removing that key from any other command. */
+export function rebind(bindings: KeyBindings, cmd: Bindable, key: string): KeyBindings {
+  const next = { ...bindings };
+  for (const c of BINDABLE) next[c] = next[c].filter((k) => k !== key);
+  next[cmd] = [key];
+  return next;
+}
+
+export function commandFromKey(key: string, bindings: KeyBindings): Command | null {
+  if (/^[0-9]$/.test(key)) return { type: "number", n: Number(key) };
+  for (const cmd of BINDABLE) {
+    if (bindings[cmd].includes(key)) return { type: cmd };
+  }
+  return null;
+}
+
+/** Human-readable key name for the bindings panel. */
+export const keyLabel = (key: string) => (key === " " ? "Space" : key);
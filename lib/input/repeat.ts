@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, type PointerEvent } from "react";
+import type { Command, Direction } from "../navigation";
+
+/**
+ * Held-direction acceleration. Holding an arrow (keyboard auto-repeat, a
+ * held Remote button, a gamepad D-pad or stick) moves one tile per repeat at
+ * first and more per repeat the longer it is held, so crossing a row of
+ * hundreds of items takes seconds rather than a minute. Keyboards repeat at
+ * the OS rate; held Remote buttons and gamepads repeat every REPEAT_MS after
+ * HOLD_MS.
+ */
+
+export const HOLD_MS = 400;
+export const REPEAT_MS = 80;
+
+// [held for at least (ms), moves per repeat]
+const RAMP: [number, number][] = [
+  [3000, 8],
+  [1800, 4],
+  [900, 2],
+];
+
+export const isDirection = (cmd: Command): cmd is { type: Direction } => ["up", "down", "left", "right"].includes(cmd.type);
+
+/** Moves per repeat after a direction has been held for `heldMs`. */
+export const repeatSteps = (heldMs: number) => RAMP.find(([ms]) => heldMs >= ms)?.[1] ?? 1;
+
+/** Sends `cmd` once per step a repeat of it is worth; other commands repeat one at a time. */
+export function repeatCommand(cmd: Command, heldMs: number, send: (cmd: Command) => void) {
+  const steps = isDirection(cmd) ? repeatSteps(heldMs) : 1;
+  for (let i = 0; i < steps; i++) send(cmd);
+}
+
+/**
+ * Press-and-hold for an on-screen button: a click sends `cmd` once; holding
+ * the pointer down repeats it, accelerating, until it is released.
+ */
+export function useHoldRepeat(send: (cmd: Command) => void) {
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const repeated = useRef(false);
+  // A hold outlives renders; it sends through the latest callback.
+  const latest = useRef(send);
+  useEffect(() => {
+    latest.current = send;
+  });
+
+  const release = useCallback(() => clearTimeout(timer.current), []);
+  useEffect(() => release, [release]);
+
+  return useCallback(
+    (cmd: Command) => ({
+      onPointerDown: (e: PointerEvent) => {
+        if (e.button !== 0) return;
+        release();
+        repeated.current = false;
+        const since = performance.now();
+        const tick = (delay: number) => {
+          timer.current = setTimeout(() => {
+            repeated.current = true;
+            repeatCommand(cmd, performance.now() - since, latest.current);
+            tick(REPEAT_MS);
+          }, delay);
+        };
+        tick(HOLD_MS);
+      },
+      onPointerUp: release,
+      onPointerLeave: release,
+      onPointerCancel: release,
+      // The click that ends a hold has already been acted on.
+      onClick: () => {
+        if (!repeated.current) latest.current(cmd);
+        repeated.current = false;
+      },
+    }),
+    [release],
+  );
+}
@@ -0,0 +1,41 @@
+import type { Command } from "../navigation";
+
+/**
+ * Touch swipe source: a swipe in a direction moves focus that way, like the
+ * touch surface on a streaming-box remote. Taps are left to normal clicks.
+ */
+
+const MIN_DISTANCE = 40; // px
+const MAX_DURATION = 600; // ms
+
+export function watchSwipes(el: HTMLElement, onCommand: (cmd: Command) => void) {
+  let start: { x: number; y: number; t: number } | null = null;
+
+  const onStart = (e: TouchEvent) => {
+    if (e.touches.length !== 1) {
+      start = null;
+      return;
+    }
+    const t = e.touches[0];
+    start = { x: t.clientX, y: t.clientY, t: e.timeStamp };
+  };
+
+  const onEnd = (e: TouchEvent) => {
+    if (!start) return;
+    const t = e.changedTouches[0];
+    const dx = t.clientX - start.x;
+    const dy = t.clientY - start.y;
+    const quick = e.timeStamp - start.t <= MAX_DURATION;
+    start = null;
+    if (!quick || Math.max(Math.abs(dx), Math.abs(dy)) < MIN_DISTANCE) return;
+    if (Math.abs(dx) > Math.abs(dy)) onCommand({ type: dx > 0 ? "right" : "left" });
+    else onCommand({ type: dy > 0 ? "down" : "up" });
+  };
+
+  el.addEventListener("touchstart", onStart, { passive: true });
+  el.addEventListener("touchend", onEnd, { passive: true });
+  return () => {
+    el.removeEventListener("touchstart", onStart);
+    el.removeEventListener("touchend", onEnd);
+  };
+}
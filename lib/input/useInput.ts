@@ -0,0 +1,71 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { inToolbar, isActivatable, isEditable } from "../a11y";
+import type { Command } from "../navigation";
+import type { CommandFeed } from "../remote/pairing";
+import { watchGamepads } from "./gamepad";
+import { commandFromKey, type KeyBindings } from "./keyboard";
+import { repeatCommand } from "./repeat";
+import { watchSwipes } from "./swipe";
+
+export type InputSource = "keyboard" | "gamepad" | "touch" | "remote" | "phone";
+
+/**
+ * Wires every raw input source to a single `onCommand` callback.
+ * The on-screen Remote calls the same callback directly with source "remote";
+ * a paired phone's commands arrive through `relay` (lib/remote/pairing.ts).
+ */
+export function useInput(
+  onCommand: (cmd: Command, source: InputSource) => void,
+  {
+    bindings,
+    swipeTarget,
+    relay,
+    enabled = true,
+  }: { bindings: KeyBindings; swipeTarget: RefObject<HTMLElement | null>; relay?: CommandFeed; enabled?: boolean },
+) {
+  // Sources subscribe once; the latest callback is read through a ref.
+  const handler = useRef(onCommand);
+  useEffect(() => {
+    handler.current = onCommand;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    // When each held key went down, for repeat acceleration.
+    const heldSince = new Map<string, number>();
+    const onKeyUp = (e: KeyboardEvent) => heldSince.delete(e.key);
+    const onKey = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || e.defaultPrevented || isEditable(e.target)) return;
+      const cmd = commandFromKey(e.key, bindings);
+      if (!cmd) return;
+      // Let focused buttons/links activate natively, and toolbars handle their own arrows.
+      if (cmd.type === "ok" && isActivatable(e.target)) return;
+      if (["up", "down", "left", "right"].includes(cmd.type) && inToolbar(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat || !heldSince.has(e.key)) heldSince.set(e.key, e.timeStamp);
+      repeatCommand(cmd, e.repeat ? e.timeStamp - heldSince.get(e.key)! : 0, (c) => handler.current(c, "keyboard"));
+    };
+    window.addEventListener("keydown", onKey);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, [bindings, enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    return watchGamepads((cmd) => handler.current(cmd, "gamepad"));
+  }, [enabled]);
+
+  useEffect(() => {
+    const el = swipeTarget.current;
+    if (!enabled || !el) return;
+    return watchSwipes(el, (cmd) => handler.current(cmd, "touch"));
+  }, [swipeTarget, enabled]);
+
+  useEffect(() => {
+    if (!enabled || !relay) return;
+    return relay((cmd) => handler.current(cmd, "phone"));
+  }, [relay, enabled]);
+}
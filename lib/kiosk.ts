@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Focus, Section } from "./types";
+
+/**
+ * Attract mode
+ * ------------------------------------------------------
+ * For unattended displays (booth monitors): after `idleMs` without input
+ * the TV surfs every item by itself (`intervalMs` each, in content order or
+ * shuffled), then shows a bouncing-logo screensaver until someone touches
+ * it. Off unless the URL asks for it, so it never covers a video or a
+ * write-up someone is watching:
+ *
+ *   ?kiosk=1        on, after 30 s idle
+ *   ?idle=45        seconds without input before it starts
+ *   ?interval=10    seconds per channel
+ *   ?order=shuffle  instead of content order
+ */
+
+export const ATTRACT_ORDERS = ["sequential", "shuffle"] as const;
+export type AttractOrder = (typeof ATTRACT_ORDERS)[number];
+
+export type KioskOptions = { enabled: boolean; idleMs: number; intervalMs: number; order: AttractOrder };
+
+export const DEFAULT_KIOSK: KioskOptions = { enabled: false, idleMs: 30_000, intervalMs: 8_000, order: "sequential" };
+
+const seconds = (v: string | null, min: number, max: number) => {
+  const n = Number(v);
+  return v && Number.isFinite(n) && n >= min && n <= max ? n * 1000 : undefined;
+};
+
+export function kioskFromSearch(search: string): KioskOptions {
+  const q = new URLSearchParams(search);
+  const kiosk = q.get("kiosk");
+  const order = q.get("order");
+  return {
+    enabled: kiosk === "1",
+    idleMs: seconds(q.get("idle"), 5, 86_400) ?? DEFAULT_KIOSK.idleMs,
+    intervalMs: seconds(q.get("interval"), 2, 600) ?? DEFAULT_KIOSK.intervalMs,
+    order: ATTRACT_ORDERS.includes(order as AttractOrder) ? (order as AttractOrder) : DEFAULT_KIOSK.order,
+  };
+}
+
+/** The kiosk part of the URL the options came from, so path changes keep it. */
+export function withKiosk(path: string, search: string) {
+  const q = new URLSearchParams(search);
+  const kept = ["kiosk", "idle", "interval", "order"].flatMap((k) => (q.has(k) ? [`${k}=${encodeURIComponent(q.get(k)!)}`] : []));
+  if (!kept.length) return path;
+  return `${path}${path.includes("?") ? "&" : "?"}${kept.join("&")}`;
+}
+
+/** Every item once, as (row, col). */
+export function attractPlaylist(sections: Section[], order: AttractOrder, random = Math.random): Focus[] {
+  const list = sections.flatMap((s, row) => s.items.map((_, col) => ({ row, col })));
+  if (order === "shuffle") {
+    for (let i = list.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [list[i], list[j]] = [list[j], list[i]];
+    }
+  }
+  return list;
+}
+
+const ACTIVITY = ["keydown", "pointermove", "pointerdown", "wheel", "touchstart"] as const;
+
+/**
+ * True after `ms` without keyboard, pointer or touch activity on the page.
+ * Inputs that don't reach the DOM (gamepad, phone remote) call `wake`.
+ */
+export function useIdle(ms: number, enabled: boolean): [boolean, () => void] {
+  const [idle, setIdle] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  const wake = useCallback(() => {
+    setIdle(false);
+    clearTimeout(timer.current);
+    if (enabled) timer.current = setTimeout(() => setIdle(true), ms);
+  }, [ms, enabled]);
+
+  useEffect(() => {
+    wake();
+    if (!enabled) return;
+    for (const type of ACTIVITY) window.addEventListener(type, wake, { capture: true, passive: true });
+    return () => {
+      clearTimeout(timer.current);
+      for (const type of ACTIVITY) window.removeEventListener(type, wake, { capture: true });
+    };
+  }, [wake, enabled]);
+
+  return [idle, wake];
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from "next";
+import { loadSections } from "./content/load";
+import { loadRedirects } from "./content/redirects";
+import { SITE_NAME } from "./site";
+
+/** Title, description and Open Graph tags for an item's channel or detail page. */
+export async function itemMetadata(key: string, id: string, details = false): Promise<Metadata> {
+  const section = (await loadSections()).find((s) => s.key === key);
+  const item = section?.items.find((i) => i.id === id);
+  if (!section || !item) return {};
+
+  const url = `/${key}/${id}${details ? "/details" : ""}`;
+  const description = item.description ?? item.subtitle;
+  const images = item.image ? [{ url: item.image, alt: item.title }] : undefined;
+  return {
+    title: item.title,
+    description,
+    keywords: item.tags.length ? item.tags : undefined,
+    alternates: { canonical: url },
+    // openGraph is replaced, not merged, so repeat the layout's siteName.
+    openGraph: { siteName: SITE_NAME, type: "article", title: item.title, description, section: section.label, tags: item.tags, url, images },
+    twitter: { card: images ? "summary_large_image" : "summary", title: item.title, description, images: item.image },
+  };
+}
+
+/** Every `/[section]/[item]` pair, for generateStaticParams; renamed items' old pairs render as redirects. */
+export async function itemParams() {
+  const [sections, redirects] = await Promise.all([loadSections(), loadRedirects()]);
+  const renamed = Object.keys(redirects).map((from) => {
+    const [section, item] = from.split("/");
+    return { section, item };
+  });
+  return [...sections.flatMap((s) => s.items.map((i) => ({ section: s.key, item: i.id }))), ...renamed];
+}
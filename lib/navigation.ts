@@ -0,0 +1,172 @@
+import { findChannel, stepChannel } from "./channels";
+import { guideStep } from "./guide";
+import { shelfFocus, type Shelf } from "./personal/shelves";
+import { guideState, HOME_STATE, SETTINGS_STATE } from "./routes";
+import { KEYBOARD, RESULTS_ROW, pressKey, searchItems } from "./search";
+import type { Focus, Section, ViewState } from "./types";
+
+/**
+ * Semantic navigation commands and the pure reducer that applies them.
+ * Every input source (keyboard, gamepad, swipe, on-screen Remote) produces a
+ * Command; only `reduce` knows what a command does to the ViewState.
+ *
+ * The home grid is the visitor's personal shelves followed by the sections,
+ * so a home focus row below `shelves.length` is a shelf. Every other screen
+ * addresses items by section.
+ */
+
+export type Direction = "up" | "down" | "left" | "right";
+
+// `number` is a single remote/keyboard digit; the channel-entry buffer turns
+// digits into a `tune` once the number is complete.
+// Playback commands only drive the ChannelView player; the reducer ignores them,
+// and `favorite` (add to / remove from My List) too.
+export const PLAYBACK = ["playPause", "mute", "seekBack", "seekForward"] as const;
+export type PlaybackCommand = (typeof PLAYBACK)[number];
+
+// `search` opens the search screen; with `query` it also sets the text (typing).
+export type Command =
+  | { type: Direction | "ok" | "back" | "home" | "guide" | "settings" | "channelUp" | "channelDown" | "favorite" | PlaybackCommand }
+  | { type: "number"; n: number }
+  | { type: "tune"; channel: number }
+  | { type: "search"; query?: string };
+
+export type CommandType = Command["type"];
+
+export const isPlayback = (cmd: Command): cmd is { type: PlaybackCommand } =>
+  (PLAYBACK as readonly string[]).includes(cmd.type);
+
+/**
+ * In right-to-left layouts rows run from the right edge, so the arrow that
+ * points at the next tile is ←. The reducer works in reading order; swap the
+ * physical directions before it sees them.
+ */
+export const mirrorCommand = (cmd: Command): Command =>
+  cmd.type === "left" ? { type: "right" } : cmd.type === "right" ? { type: "left" } : cmd;
+
+export const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+function resultIndex(sections: Section[], { row, col, query = "" }: { row: number; col: number; query?: string }) {
+  return Math.max(0, searchItems(sections, query).findIndex((hit) => hit.row === row && hit.col === col));
+}
+
+/** Keeps the search cursor on a real key or result after the results change. */
+function fitCursor(sections: Section[], query: string, { row, col }: Focus): Focus {
+  if (row === RESULTS_ROW) {
+    const count = searchItems(sections, query).length;
+    if (count) return { row, col: clamp(col, 0, count - 1) };
+    row = RESULTS_ROW - 1;
+  }
+  return { row, col: clamp(col, 0, KEYBOARD[row].length - 1) };
+}
+
+function reduceSearch(sections: Section[], state: Extract<ViewState, { mode: "search" }>, cmd: Command): ViewState {
+  const { query } = state;
+  const { row, col } = state.cursor;
+  const results = searchItems(sections, query);
+  const lastRow = results.length ? RESULTS_ROW : RESULTS_ROW - 1;
+  const move = (r: number, c: number): ViewState => ({ ...state, cursor: fitCursor(sections, query, { row: clamp(r, 0, lastRow), col: c }) });
+  switch (cmd.type) {
+    case "up": return move(row - 1, col);
+    case "down": return move(row + 1, col);
+    case "left": return move(row, col - 1);
+    case "right": return move(row, col + 1);
+    case "ok": {
+      if (row < RESULTS_ROW) return { ...state, query: pressKey(query, KEYBOARD[row][col]) };
+      const hit = results[col];
+      return hit ? { mode: "channel", ...hit, from: "search", query } : state;
+    }
+    case "back": return HOME_STATE;
+    case "guide": return guideState(sections);
+    default: return state;
+  }
+}
+
+export function reduce(sections: Section[], state: ViewState, cmd: Command, shelves: Shelf[] = []): ViewState {
+  const n = shelves.length;
+  const toHome = ({ row, col }: Focus): Focus => ({ row: row + n, col });
+  const fromHome = ({ row, col }: Focus): Focus => (row < n ? (shelves[row].items[col] ?? shelves[row].items[0]) : { row: row - n, col });
+  if (cmd.type === "home") return { mode: "home", focus: { row: 0, col: 0 } };
+  if (cmd.type === "tune") {
+    const hit = findChannel(sections, cmd.channel);
+    return hit ? { mode: "channel", row: hit.row, col: hit.col } : state;
+  }
+  if (cmd.type === "search") {
+    if (state.mode !== "search") return { mode: "search", query: cmd.query ?? "", cursor: { row: 0, col: 0 } };
+    const query = cmd.query ?? state.query;
+    return { ...state, query, cursor: fitCursor(sections, query, state.cursor) };
+  }
+  if (cmd.type === "settings") return SETTINGS_STATE;
+  if (state.mode === "search") return reduceSearch(sections, state, cmd);
+  // Settings: the settings view itself handles the D-pad and OK.
+  if (state.mode === "settings") {
+    if (cmd.type === "back") return HOME_STATE;
+    return cmd.type === "guide" ? guideState(sections) : state;
+  }
+  if (cmd.type === "guide") {
+    if (state.mode === "guide") return { mode: "home", focus: toHome(state.focus) };
+    return { mode: "guide", focus: state.mode === "home" ? fromHome(state.focus) : { row: state.row, col: state.col } };
+  }
+  if (cmd.type === "channelUp" || cmd.type === "channelDown") {
+    const from = state.mode === "home" ? fromHome(state.focus) : "focus" in state ? state.focus : state;
+    const hit = stepChannel(sections, from.row, from.col, cmd.type === "channelUp" ? 1 : -1);
+    if (!hit) return state;
+    // On the home screen and guide channel up/down moves focus; otherwise it tunes.
+    if (state.mode === "home") return { mode: "home", focus: toHome(hit) };
+    if (state.mode === "guide") return { mode: "guide", focus: { row: hit.row, col: hit.col } };
+    return { ...state, mode: "channel", row: hit.row, col: hit.col };
+  }
+
+  if (state.mode === "home") {
+    const { row, col } = state.focus;
+    const lastRow = n + sections.length - 1;
+    const lastCol = (row < n ? shelves[row].items.length : (sections[row - n]?.items.length ?? 1)) - 1;
+    switch (cmd.type) {
+      // A new row starts at its first tile; pushing past the top or bottom row keeps the focus.
+      case "up": return row > 0 ? { mode: "home", focus: { row: row - 1, col: 0 } } : state;
+      case "down": return row < lastRow ? { mode: "home", focus: { row: row + 1, col: 0 } } : state;
+      case "left": return { mode: "home", focus: { row, col: clamp(col - 1, 0, lastCol) } };
+      case "right": return { mode: "home", focus: { row, col: clamp(col + 1, 0, lastCol) } };
+      case "ok": {
+        if (row < n) return shelves[row].items[col] ? { mode: "channel", ...shelves[row].items[col], list: shelves[row].key } : state;
+        return sections[row - n]?.items[col] ? { mode: "channel", row: row - n, col } : state;
+      }
+      default: return state;
+    }
+  }
+
+  if (state.mode === "guide") {
+    const { row, col } = state.focus;
+    if (!sections[row]?.items[col]) return state;
+    switch (cmd.type) {
+      case "up":
+      case "down":
+      case "left":
+      case "right": return { mode: "guide", focus: guideStep(sections, row, col, cmd.type) };
+      case "ok": return { mode: "channel", row, col, from: "guide" };
+      case "back": return { mode: "home", focus: toHome({ row, col }) };
+      default: return state;
+    }
+  }
+
+  // Detail overlay: the overlay itself handles D-pad scrolling and link focus.
+  if (state.mode === "detail") {
+    return cmd.type === "back" ? { ...state, mode: "channel" } : state;
+  }
+
+  const lastCol = sections[state.row].items.length - 1;
+  const back: ViewState =
+    state.from === "search"
+      ? { mode: "search", query: state.query ?? "", cursor: fitCursor(sections, state.query ?? "", { row: RESULTS_ROW, col: resultIndex(sections, state) }) }
+      : state.from === "guide"
+        ? { mode: "guide", focus: { row: state.row, col: state.col } }
+        : { mode: "home", focus: (state.list && shelfFocus(shelves, state.list, state)) || toHome(state) };
+  switch (cmd.type) {
+    case "left": return { ...state, col: clamp(state.col - 1, 0, lastCol) };
+    case "right": return { ...state, col: clamp(state.col + 1, 0, lastCol) };
+    case "ok": return { ...state, mode: "detail" };
+    case "up":
+    case "back": return back;
+    default: return state;
+  }
+}
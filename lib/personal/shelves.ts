@@ -0,0 +1,110 @@
+import type { Accent } from "../accents";
+import type { Focus, Section, ViewState } from "../types";
+import type { Personal } from "./storage";
+
+/**
+ * Personal rows ("shelves") computed from a visitor's history
+ * ------------------------------------------------------
+ *   continue  – Continue Watching: the last few channels opened
+ *   my-list   – My List: favourites, most recently added first
+ *   because   – Because you viewed X: items sharing tags with X, the latest
+ *               viewed item that has any, best match first
+ *
+ * Shelves sit above the authored rows on the home screen only. They hold
+ * section positions, not copies, so a channel opened from one is the item's
+ * own channel; its URL carries `?list=<key>` so Back can return to the shelf.
+ * Empty shelves are left out.
+ */
+
+export const SHELVES = ["continue", "my-list", "because"] as const;
+export type ShelfKey = (typeof SHELVES)[number];
+
+export const isShelfKey = (v: unknown): v is ShelfKey => (SHELVES as readonly unknown[]).includes(v);
+
+export type Shelf = { key: ShelfKey; color: Accent; items: Focus[]; seed?: Focus };
+
+export const CONTINUE_MAX = 6;
+export const BECAUSE_MAX = 8;
+
+function resolve(sections: Section[], refs: string[]): Focus[] {
+  return refs.flatMap((ref) => {
+    const [key, id] = ref.split("/");
+    const row = sections.findIndex((s) => s.key === key);
+    const col = row < 0 ? -1 : sections[row].items.findIndex((i) => i.id === id);
+    return col < 0 ? [] : [{ row, col }];
+  });
+}
+
+const same = (a: Focus) => (b: Focus) => a.row === b.row && a.col === b.col;
+
+function becauseYouViewed(sections: Section[], viewed: Focus[], exclude: Focus[]): Shelf | null {
+  const tagsOf = ({ row, col }: Focus) => new Set(sections[row].items[col].tags.map((t) => t.toLowerCase()));
+  for (const seed of viewed) {
+    const tags = tagsOf(seed);
+    if (!tags.size) continue;
+    const scored = sections.flatMap((s, row) =>
+      s.items.flatMap((_, col) => {
+        const at = { row, col };
+        if (same(seed)(at) || exclude.some(same(at))) return [];
+        const shared = [...tagsOf(at)].filter((t) => tags.has(t)).length;
+        return shared ? [{ at, shared }] : [];
+      }),
+    );
+    if (!scored.length) continue;
+    // Array.prototype.sort is stable: ties keep content order.
+    const items = scored.sort((a, b) => b.shared - a.shared).slice(0, BECAUSE_MAX).map((s) => s.at);
+    return { key: "because", color: sections[seed.row].color, items, seed };
+  }
+  return null;
+}
+
+export function buildShelves(sections: Section[], { recent, favorites }: Personal): Shelf[] {
+  const viewed = resolve(sections, recent);
+  const shelves: Shelf[] = [];
+  const watching = viewed.slice(0, CONTINUE_MAX);
+  if (watching.length) shelves.push({ key: "continue", color: "rose", items: watching });
+  const mine = resolve(sections, favorites);
+  if (mine.length) shelves.push({ key: "my-list", color: "violet", items: mine });
+  const because = becauseYouViewed(sections, viewed, watching);
+  if (because) shelves.push(because);
+  return shelves;
+}
+
+/** A shelf as a row RowRail can draw, with the same Item objects as `sections`. */
+export function shelfRow(shelf: Shelf, sections: Section[], label: string): Section {
+  return { key: shelf.key, label, color: shelf.color, items: shelf.items.map(({ row, col }) => sections[row].items[col]) };
+}
+
+/** Where Back from a channel opened on `shelf` lands on the home screen: that shelf, on the item if it is still there. */
+export function shelfFocus(shelves: Shelf[], key: ShelfKey, at: Focus): Focus | null {
+  const row = shelves.findIndex((s) => s.key === key);
+  return row < 0 ? null : { row, col: Math.max(0, shelves[row].items.findIndex(same(at))) };
+}
+
+/**
+ * The home focus after the shelves change under it (My List gaining its
+ * first item or losing its last shifts every row below): the same item, or
+ * the same section row. An item that left its shelf gives way to its
+ * neighbour there, or to its own section once the shelf is gone.
+ */
+export function refocus(before: Shelf[], after: Shelf[], { row, col }: Focus): Focus {
+  if (row >= before.length) return { row: row - before.length + after.length, col };
+  const item = before[row].items[col];
+  const now = after.findIndex((s) => s.key === before[row].key);
+  if (now >= 0) {
+    const at = after[now].items.findIndex(same(item));
+    return { row: now, col: at >= 0 ? at : Math.min(col, after[now].items.length - 1) };
+  }
+  return { row: after.length + item.row, col: item.col };
+}
+
+/** The item on screen, by section position: the home focus (through the shelves), the guide focus, a channel or its details. */
+export function currentItem(sections: Section[], state: ViewState, shelves: Shelf[]): Focus | null {
+  let at: Focus | undefined;
+  if (state.mode === "home") {
+    const { row, col } = state.focus;
+    at = row < shelves.length ? shelves[row].items[col] : { row: row - shelves.length, col };
+  } else if (state.mode === "guide") at = state.focus;
+  else if (state.mode === "channel" || state.mode === "detail") at = state;
+  return at && sections[at.row]?.items[at.col] ? { row: at.row, col: at.col } : null;
+}
@@ -0,0 +1,56 @@
+import { SLUG } from "../content/schema";
+import type { Focus, Section } from "../types";
+
+/**
+ * What the home screen remembers about a visitor: the items they opened,
+ * most recent first, and the ones they put on My List. It lives in this
+ * browser's localStorage only. Items are `section/id` refs (their channel
+ * path), so reordering or renumbering content doesn't scramble them; refs
+ * to items that have since been removed are skipped.
+ */
+
+export type Personal = { recent: string[]; favorites: string[] };
+
+export const NO_HISTORY: Personal = { recent: [], favorites: [] };
+
+export const RECENT_MAX = 20;
+
+const STORAGE_KEY = "tv-portfolio:personal";
+
+export const itemRef = (sections: Section[], { row, col }: Focus) => `${sections[row].key}/${sections[row].items[col].id}`;
+
+const isRef = (v: unknown): v is string => {
+  if (typeof v !== "string") return false;
+  const parts = v.split("/");
+  return parts.length === 2 && parts.every((p) => SLUG.test(p));
+};
+
+const refs = (v: unknown) => (Array.isArray(v) ? [...new Set(v.filter(isRef))] : []);
+
+export function loadPersonal(): Personal {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!raw || typeof raw !== "object") return NO_HISTORY;
+    return { recent: refs(raw.recent).slice(0, RECENT_MAX), favorites: refs(raw.favorites) };
+  } catch {
+    return NO_HISTORY;
+  }
+}
+
+export function savePersonal(personal: Personal) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(personal));
+  } catch {
+    // Private mode / quota: the rows just won't persist.
+  }
+}
+
+/** `ref` moved to the front of the recently viewed list. */
+export const addRecent = (p: Personal, ref: string): Personal =>
+  p.recent[0] === ref ? p : { ...p, recent: [ref, ...p.recent.filter((r) => r !== ref)].slice(0, RECENT_MAX) };
+
+/** Adds `ref` to the front of My List, or takes it off. */
+export const toggleFavorite = (p: Personal, ref: string): Personal => ({
+  ...p,
+  favorites: p.favorites.includes(ref) ? p.favorites.filter((r) => r !== ref) : [ref, ...p.favorites],
+});
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from "react";
+import { loadPersonal, NO_HISTORY, savePersonal, type Personal } from "./storage";
+
+/**
+ * This visitor's history and My List, and an updater that also persists them.
+ * Without `persist` they start empty and live only in memory, leaving the
+ * visitor's saved ones alone.
+ */
+export function usePersonal(persist = true): [Personal, (change: (p: Personal) => Personal) => void] {
+  // Empty until localStorage is read, like the server render.
+  const [personal, setPersonal] = useState<Personal>(NO_HISTORY);
+  useEffect(() => {
+    if (persist) setPersonal(loadPersonal());
+  }, [persist]);
+
+  const update = useCallback(
+    (change: (p: Personal) => Personal) => {
+      setPersonal((p) => {
+        const next = change(p);
+        if (persist && next !== p) savePersonal(next);
+        return next;
+      });
+    },
+    [persist],
+  );
+  return [personal, update];
+}
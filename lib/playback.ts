@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+
+/** Seconds skipped by seekBack / seekForward. */
+export const SEEK_SECONDS = 10;
+
+/** Focus time before a rail tile swaps its image for the preview clip. */
+export const PREVIEW_DELAY = 1000;
+
+export function usePrefersReducedMotion() {
+  const [reduced, setReduced] = useState(false);
+  useEffect(() => {
+    const mq = window.matchMedia("(prefers-reduced-motion: reduce)");
+    setReduced(mq.matches);
+    const onChange = () => setReduced(mq.matches);
+    mq.addEventListener("change", onChange);
+    return () => mq.removeEventListener("change", onChange);
+  }, []);
+  return reduced;
+}
+
+export function usePageVisible() {
+  const [visible, setVisible] = useState(true);
+  useEffect(() => {
+    const onChange = () => setVisible(document.visibilityState === "visible");
+    onChange();
+    document.addEventListener("visibilitychange", onChange);
+    return () => document.removeEventListener("visibilitychange", onChange);
+  }, []);
+  return visible;
+}
+
+/** True once `key` has stayed the same (and non-null) for `delay` ms. */
+export function useDwell(key: string | null, delay: number) {
+  const [settled, setSettled] = useState<string | null>(null);
+  useEffect(() => {
+    if (key === null) return;
+    const t = setTimeout(() => setSettled(key), delay);
+    return () => clearTimeout(t);
+  }, [key, delay]);
+  return key !== null && settled === key;
+}
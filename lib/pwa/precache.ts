@@ -0,0 +1,30 @@
+import { createHash } from "node:crypto";
+import type { Section } from "../types";
+
+/**
+ * What the service worker (app/sw.js/route.ts) saves on install: the app
+ * shell, every channel and detail page, and every item image, so the TV
+ * works offline, including `#home` / `#key=id` links that open on `/`.
+ */
+
+export const SHELL = ["/", "/guide", "/search", "/settings", "/resume", "/offline", "/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+// Pages the worker leaves alone: private, live or server-dependent.
+export const NETWORK_ONLY = ["/admin", "/stats", "/api", "/remote", "/bench"];
+
+export function precacheUrls(sections: Section[]) {
+  const urls = new Set(SHELL);
+  for (const section of sections) {
+    for (const item of section.items) {
+      urls.add(`/${section.key}/${item.id}`);
+      urls.add(`/${section.key}/${item.id}/details`);
+      for (const src of [item.image, item.poster, ...item.media.flatMap((m) => (m.type === "image" ? [m.src] : m.poster ? [m.poster] : []))]) {
+        if (src) urls.add(src);
+      }
+    }
+  }
+  return [...urls];
+}
+
+/** Changes whenever the content does, which makes browsers pick up a new worker and offer the update. */
+export const contentVersion = (sections: Section[]) => createHash("sha256").update(JSON.stringify(sections)).digest("hex").slice(0, 12);
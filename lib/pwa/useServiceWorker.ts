@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+
+// Kiosk screens stay open for days; look for new content now and then.
+const UPDATE_CHECK_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker (app/sw.js/route.ts) in production builds (in
+ * dev it would serve stale code) and reports when a new version is waiting.
+ * `update` hands over to it and reloads once it is in control.
+ */
+export function useServiceWorker() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    navigator.serviceWorker.register("/sw.js").then(
+      (registration) => {
+        if (stopped) return;
+        // The first install has nothing to replace, so only later versions prompt.
+        const check = () => {
+          if (!stopped && registration.waiting && navigator.serviceWorker.controller) setWaiting(registration.waiting);
+        };
+        check();
+        registration.addEventListener("updatefound", () => registration.installing?.addEventListener("statechange", check));
+        timer = setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_MS);
+      },
+      () => {},
+    );
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  const update = useCallback(() => {
+    if (!waiting) return;
+    navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+    waiting.postMessage({ type: "skipWaiting" });
+  }, [waiting]);
+
+  return { updateReady: waiting !== null, update, dismiss: () => setWaiting(null) };
+}
@@ -0,0 +1,119 @@
+/* global VERSION, PRECACHE, NETWORK_ONLY */
+
+/**
+ * Service worker body. app/sw.js/route.ts serves it with VERSION (changes
+ * with the content), PRECACHE (lib/pwa/precache.ts) and NETWORK_ONLY
+ * defined in front.
+ *
+ * - Install saves every PRECACHE URL plus the /_next/static files the saved
+ *   pages name, so a cold offline launch (including `/#key=id`) hydrates.
+ * - A new version waits until the page's update prompt sends "skipWaiting".
+ * - Pages: network first, then the saved copy, then /offline.
+ * - Images: saved copy first; an optimizer size never fetched falls back to
+ *   the saved original. Anything else missing fails, and the page shows its
+ *   "No Signal" screen.
+ */
+
+const CACHE = `tv-${VERSION}`;
+// Hashed build files never change, so they are kept across versions.
+const STATIC = "tv-static";
+
+const STATIC_REF = /\/_next\/static\/[^"'\s\\)]+/g;
+
+const isLocal = (url) => url.origin === self.location.origin;
+
+async function save(cache, url) {
+  const remote = !url.startsWith("/");
+  // Remote images come back opaque (no CORS), which is still fine for <img>.
+  const response = await fetch(new Request(url, remote ? { mode: "no-cors" } : { cache: "reload" }));
+  if (!response.ok && response.type !== "opaque") throw new Error(`${url}: ${response.status}`);
+  const copy = response.clone();
+  await cache.put(url, response);
+  return copy;
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE);
+      const statics = await caches.open(STATIC);
+      const refs = new Set();
+      await Promise.allSettled(
+        PRECACHE.map(async (url) => {
+          const response = await save(cache, url);
+          if (!(response.headers.get("content-type") ?? "").includes("text/html")) return;
+          for (const ref of (await response.text()).match(STATIC_REF) ?? []) refs.add(ref);
+        }),
+      );
+      await Promise.allSettled([...refs].map(async (ref) => (await statics.match(ref)) || save(statics, ref)));
+    })(),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "skipWaiting") self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith("tv-") && name !== CACHE && name !== STATIC) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })(),
+  );
+});
+
+async function page(request, url) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) await (await caches.open(CACHE)).put(url.pathname, response.clone());
+    return response;
+  } catch {
+    // ?lang= and ?q= are read in the browser, so the page without them will do.
+    return (await caches.match(url.pathname)) ?? (await caches.match("/offline")) ?? Response.error();
+  }
+}
+
+async function buildFile(request) {
+  const statics = await caches.open(STATIC);
+  const hit = await statics.match(request);
+  if (hit) return hit;
+  const response = await fetch(request);
+  if (response.ok) await statics.put(request, response.clone());
+  return response;
+}
+
+async function image(request, url) {
+  const cache = await caches.open(CACHE);
+  const hit = await cache.match(request);
+  if (hit) return hit;
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === "opaque") await cache.put(request, response.clone());
+    return response;
+  } catch {
+    const original = isLocal(url) && url.pathname === "/_next/image" ? url.searchParams.get("url") : null;
+    return (original && (await cache.match(original))) || Response.error();
+  }
+}
+
+async function networkFirst(request) {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match(request)) ?? Response.error();
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (isLocal(url) && NETWORK_ONLY.some((p) => url.pathname === p || url.pathname.startsWith(`${p}/`))) return;
+  if (request.mode === "navigate") event.respondWith(page(request, url));
+  else if (isLocal(url) && url.pathname.startsWith("/_next/static/")) event.respondWith(buildFile(request));
+  else if (request.destination === "image") event.respondWith(image(request, url));
+  else if (isLocal(url)) event.respondWith(networkFirst(request));
+});
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Command } from "../navigation";
+import { parseRemoteCommand, sessionUrl, type Pairing, type Peers } from "./protocol";
+
+/**
+ * TV side of phone pairing: opens a session, listens for relayed commands and
+ * tracks whether a phone is connected. The session survives reloads of the
+ * tab (sessionStorage) so a paired phone keeps working.
+ */
+
+// off: not pairing · waiting: code on screen, no phone yet · connected: a phone
+// is paired · lost: the stream dropped and is retrying · failed: session gone
+export type PairingStatus = "off" | "opening" | "waiting" | "connected" | "lost" | "failed";
+
+/** Subscribes to relayed commands; returns the unsubscribe function (like watchGamepads). */
+export type CommandFeed = (onCommand: (cmd: Command) => void) => () => void;
+
+const STORAGE_KEY = "tv-portfolio:pairing";
+
+function loadPairing(): Pairing | null {
+  try {
+    const raw = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "null");
+    return raw && typeof raw.code === "string" && typeof raw.token === "string" ? raw : null;
+  } catch {
+    return null;
+  }
+}
+
+function savePairing(pairing: Pairing | null) {
+  try {
+    if (pairing) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(pairing));
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Private mode: pairing just won't survive a reload.
+  }
+}
+
+export function usePairing() {
+  const [pairing, setPairing] = useState<Pairing | null>(null);
+  const [status, setStatus] = useState<PairingStatus>("off");
+  const listeners = useRef(new Set<(cmd: Command) => void>());
+  const resumed = useRef(false);
+
+  useEffect(() => {
+    const saved = loadPairing();
+    if (!saved) return;
+    resumed.current = true;
+    setPairing(saved);
+    setStatus("opening");
+  }, []);
+
+  useEffect(() => {
+    if (!pairing) return;
+    const events = new EventSource(`${sessionUrl(pairing.code)}?token=${encodeURIComponent(pairing.token)}`);
+    const end = (next: PairingStatus) => {
+      events.close();
+      savePairing(null);
+      setPairing(null);
+      setStatus(next);
+    };
+    events.addEventListener("peers", (e) => {
+      const peers: Peers = JSON.parse(e.data);
+      setStatus(peers.phones > 0 ? "connected" : "waiting");
+      resumed.current = false;
+    });
+    events.addEventListener("command", (e) => {
+      const cmd = parseRemoteCommand(JSON.parse(e.data));
+      if (cmd) listeners.current.forEach((fn) => fn(cmd));
+    });
+    events.addEventListener("ended", () => end("off"));
+    // EventSource retries dropped connections by itself; it only gives up
+    // (CLOSED) when the server no longer knows the session.
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) end(resumed.current ? "off" : "failed");
+      else setStatus("lost");
+    };
+    return () => events.close();
+  }, [pairing]);
+
+  const start = useCallback(async () => {
+    if (pairing) return;
+    setStatus("opening");
+    try {
+      const res = await fetch("/api/remote", { method: "POST" });
+      if (!res.ok) throw new Error(res.statusText);
+      const next: Pairing = await res.json();
+      resumed.current = false;
+      savePairing(next);
+      setPairing(next);
+    } catch {
+      setStatus("failed");
+    }
+  }, [pairing]);
+
+  const stop = useCallback(() => {
+    if (pairing) void fetch(`${sessionUrl(pairing.code)}?token=${encodeURIComponent(pairing.token)}`, { method: "DELETE", keepalive: true }).catch(() => {});
+    savePairing(null);
+    setPairing(null);
+    setStatus("off");
+  }, [pairing]);
+
+  const feed = useCallback<CommandFeed>((onCommand) => {
+    const set = listeners.current;
+    set.add(onCommand);
+    return () => void set.delete(onCommand);
+  }, []);
+
+  return { code: pairing?.code ?? null, status, start, stop, feed };
+}
@@ -0,0 +1,45 @@
+import type { Command } from "../navigation";
+
+/**
+ * Phone remote protocol
+ * ------------------------------------------------------
+ * A TV page opens a pairing session and shows its short code (and a QR code
+ * for `/remote?code=…`). Both ends then listen on one Server-Sent Events
+ * stream, GET /api/remote/<code>:
+ *
+ *   TV     (?token=…)  events: `command` (a Command), `peers`
+ *   phone              events: `peers`, `ended`
+ *
+ * The phone sends each button press as a JSON Command in POST /api/remote/<code>.
+ * The TV ends the session with DELETE /api/remote/<code>?token=….
+ */
+
+// No 0/O or 1/I, so codes survive being read off a TV across the room.
+export const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const CODE_LENGTH = 6;
+
+/** Uppercases and drops separators, so "abc-234" works as typed. */
+export const normalizeCode = (s: string) => s.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export const isCode = (s: string) => s.length === CODE_LENGTH && [...s].every((c) => CODE_ALPHABET.includes(c));
+
+export const sessionUrl = (code: string) => `/api/remote/${code}`;
+
+export const pairingUrl = (origin: string, code: string) => `${origin}/remote?code=${code}`;
+
+export type Pairing = { code: string; token: string };
+
+/** Who is on the other end; sent to both sides whenever it changes. */
+export type Peers = { tv: boolean; phones: number };
+
+// Everything the Remote's buttons can send. Typing (`search` with a query)
+// and direct `tune`s stay on the TV.
+const RELAYED = new Set<string>(["up", "down", "left", "right", "ok", "back", "home", "guide", "search", "settings", "channelUp", "channelDown", "favorite", "playPause", "mute", "seekBack", "seekForward"]);
+
+/** Validates a command coming off the wire; null if it isn't one the Remote could send. */
+export function parseRemoteCommand(raw: unknown): Command | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { type, n } = raw as { type?: unknown; n?: unknown };
+  if (type === "number") return Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 9 ? { type, n: n as number } : null;
+  return typeof type === "string" && RELAYED.has(type) ? ({ type } as Command) : null;
+}
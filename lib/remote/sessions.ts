@@ -0,0 +1,107 @@
+import { randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+import type { Command } from "../navigation";
+import { CODE_ALPHABET, CODE_LENGTH, type Pairing, type Peers } from "./protocol";
+
+/**
+ * In-memory pairing sessions
+ * ------------------------------------------------------
+ * Server-side only. Sessions live in this process, which is all a local
+ * `next dev` / `next start` needs; several server instances would need a
+ * shared store instead. Opening a session needs no sign-in, so there are at
+ * most MAX_SESSIONS at once and abandoned ones are swept every minute.
+ */
+
+export type Send = (event: string, data: unknown) => void;
+
+type Session = Pairing & { tv: Set<Send>; phones: Set<Send>; idleSince: number };
+
+/** A session nobody is connected to is dropped after this long. */
+export const SESSION_TTL = 10 * 60_000;
+
+/** Far more TVs than one server pairs at once, far fewer than would strain its memory. */
+export const MAX_SESSIONS = 1000;
+
+const SWEEP_MS = 60_000;
+
+// Route handlers can be bundled (and in dev, reloaded) separately; keep one
+// store (and one sweep timer) per process on globalThis.
+const store = globalThis as typeof globalThis & { __tvRemoteSessions?: Map<string, Session>; __tvRemoteSweep?: ReturnType<typeof setInterval> };
+const sessions = (store.__tvRemoteSessions ??= new Map<string, Session>());
+
+export function sweep(now = Date.now()) {
+  for (const [code, s] of sessions) {
+    if (!s.tv.size && !s.phones.size && now - s.idleSince > SESSION_TTL) sessions.delete(code);
+  }
+}
+
+store.__tvRemoteSweep ??= setInterval(sweep, SWEEP_MS);
+// Don't keep a process (a test run, a build) alive just to sweep.
+store.__tvRemoteSweep.unref?.();
+
+// Constant-time, so response timing doesn't give away how much of a guess was right.
+function sameToken(given: string, token: string) {
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function newCode() {
+  let code;
+  do code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+  while (sessions.has(code));
+  return code;
+}
+
+/** A new session, or null when MAX_SESSIONS are already open. */
+export function createSession(): Pairing | null {
+  sweep();
+  if (sessions.size >= MAX_SESSIONS) return null;
+  const session: Session = { code: newCode(), token: randomBytes(16).toString("hex"), tv: new Set(), phones: new Set(), idleSince: Date.now() };
+  sessions.set(session.code, session);
+  return { code: session.code, token: session.token };
+}
+
+export const hasSession = (code: string) => sessions.has(code);
+
+const peers = (s: Session): Peers => ({ tv: s.tv.size > 0, phones: s.phones.size });
+
+function broadcast(s: Session) {
+  const p = peers(s);
+  for (const send of [...s.tv, ...s.phones]) send("peers", p);
+}
+
+/**
+ * Attaches a stream to a session: the TV if `token` matches, otherwise a
+ * phone. Returns the detach function, or null for an unknown code or a wrong
+ * token.
+ */
+export function connect(code: string, token: string | null, send: Send): (() => void) | null {
+  sweep();
+  const s = sessions.get(code);
+  if (!s || (token !== null && !sameToken(token, s.token))) return null;
+  const side = token === null ? s.phones : s.tv;
+  side.add(send);
+  broadcast(s);
+  return () => {
+    if (!side.delete(send)) return;
+    if (!s.tv.size && !s.phones.size) s.idleSince = Date.now();
+    broadcast(s);
+  };
+}
+
+/** Hands a phone's command to the TV; false if no TV is listening. */
+export function relay(code: string, cmd: Command) {
+  const s = sessions.get(code);
+  if (!s?.tv.size) return false;
+  for (const send of s.tv) send("command", cmd);
+  return true;
+}
+
+/** Ends a session on the TV's behalf, telling any phones. */
+export function endSession(code: string, token: string) {
+  const s = sessions.get(code);
+  if (!s || !sameToken(token, s.token)) return false;
+  sessions.delete(code);
+  for (const send of s.phones) send("ended", null);
+  return true;
+}
@@ -0,0 +1,273 @@
+import type { Accent } from "../accents";
+import { ContentError, SLUG } from "../content/schema";
+import type { Item, ItemLink, Section } from "../types";
+
+/**
+ * JSON Resume (https://jsonresume.org/schema) <-> sections
+ * ------------------------------------------------------
+ *   basics     <-> the first item of "about"  (label = subtitle, summary = description, url/profiles = links)
+ *   work       <-> "experience"  ("Position – Company" titles, description = subtitle, summary = description)
+ *   projects   <-> "projects"    (entity = subtitle, keywords = tags)
+ *   interests  <-> "hobbies"     (keywords = tags)
+ *
+ * `highlights` become a Markdown bullet list in the item body and back.
+ * Entries carry their item `id` (JSON Resume allows extra properties), so
+ * an exported résumé imports back onto the same items. Pure: writing the
+ * imported items to content/ is lib/content/store.ts's importResume.
+ */
+
+type Dated = { startDate?: string; endDate?: string };
+type Highlighted = { highlights?: string[] };
+
+export type ResumeProfile = { network?: string; username?: string; url?: string };
+
+export type ResumeBasics = {
+  id?: string;
+  name?: string;
+  label?: string;
+  image?: string;
+  email?: string;
+  url?: string;
+  summary?: string;
+  profiles?: ResumeProfile[];
+};
+
+export type ResumeWork = { id?: string; name?: string; position?: string; url?: string; description?: string; summary?: string } & Dated & Highlighted;
+
+export type ResumeProject = { id?: string; name?: string; description?: string; entity?: string; url?: string; keywords?: string[] } & Dated & Highlighted;
+
+export type ResumeInterest = { id?: string; name?: string; keywords?: string[] };
+
+export type JsonResume = {
+  $schema?: string;
+  basics?: ResumeBasics;
+  work?: ResumeWork[];
+  projects?: ResumeProject[];
+  interests?: ResumeInterest[];
+};
+
+/** An imported item: the fields the résumé has, for the store to lay over what is saved. */
+export type ResumeItem = { id: string; title: string } & Partial<Pick<Item, "subtitle" | "image" | "description" | "start" | "end" | "body">> & {
+  links?: ItemLink[];
+  tags?: string[];
+};
+
+export type ResumeSection = { key: string; label: string; color: Accent; items: ResumeItem[] };
+
+/** Where each part of the résumé goes, and how a missing section is created. */
+export const RESUME_SECTIONS = {
+  basics: { key: "about", label: "About Me", color: "blue" },
+  work: { key: "experience", label: "Work Experience", color: "fuchsia" },
+  projects: { key: "projects", label: "Projects", color: "emerald" },
+  interests: { key: "hobbies", label: "Hobbies", color: "orange" },
+} as const satisfies Record<string, Omit<ResumeSection, "items">>;
+
+export const TITLE_SEPARATOR = " – ";
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const text = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+const texts = (v: unknown) => (Array.isArray(v) ? v.map(text).filter((s): s is string => !!s) : []);
+
+export const slugify = (s: string) =>
+  s
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+
+/** JSON Resume dates are ISO 8601 and may be just a year; the guide wants at least a month (a year ends in December). */
+function date(v: unknown, end = false) {
+  const s = text(v);
+  if (!s) return undefined;
+  if (/^\d{4}$/.test(s)) return `${s}-${end ? "12" : "01"}`;
+  return /^\d{4}-\d{2}(-\d{2})?/.exec(s)?.[0];
+}
+
+const bullets = (lines: string[]) => (lines.length ? lines.map((l) => `- ${l}`).join("\n") : undefined);
+
+const linkType = (url: string): ItemLink["type"] => (/^https?:\/\/(www\.)?(github|gitlab)\.com\//.test(url) ? "repo" : "site");
+
+function link(url: unknown, label?: string): ItemLink[] {
+  const u = text(url);
+  return u ? [{ type: linkType(u), url: u, ...(label ? { label } : {}) }] : [];
+}
+
+/** Drops unset and empty fields: the store only overwrites what the résumé has, and exports stay tidy. */
+function defined<T extends object>(o: T): T {
+  return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined && !(Array.isArray(v) && v.length === 0))) as T;
+}
+
+function entries(raw: Record<string, unknown>, part: string, issues: string[]) {
+  const list = raw[part];
+  if (list === undefined) return [];
+  if (!Array.isArray(list)) {
+    issues.push(`"${part}" must be a list`);
+    return [];
+  }
+  return list.flatMap((e, i) => {
+    if (isRecord(e)) return [e];
+    issues.push(`${part}[${i}]: must be an object`);
+    return [];
+  });
+}
+
+/** `id` from the entry when it is a usable slug, otherwise from its name; unique within `taken`. */
+function itemId(entry: Record<string, unknown>, fallback: string, taken: Set<string>) {
+  const own = text(entry.id);
+  const base = own && SLUG.test(own) ? own : slugify(fallback) || "item";
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+/**
+ * The résumé's sections, in `RESUME_SECTIONS` order, skipping parts it
+ * doesn't have. Throws a ContentError listing every malformed entry.
+ */
+export function fromJsonResume(raw: unknown): ResumeSection[] {
+  const issues: string[] = [];
+  if (!isRecord(raw)) throw new ContentError(["a JSON Resume document must be an object"]);
+  const taken = new Set<string>();
+  const out: ResumeSection[] = [];
+  const named = (part: string, list: Record<string, unknown>[], name: (e: Record<string, unknown>) => string | undefined) =>
+    list.filter((e, i) => {
+      if (name(e)) return true;
+      issues.push(`${part}[${i}]: needs a name`);
+      return false;
+    });
+
+  if (raw.basics !== undefined) {
+    const b = raw.basics;
+    if (!isRecord(b)) issues.push(`"basics" must be an object`);
+    else {
+      const profiles = Array.isArray(b.profiles) ? b.profiles.filter(isRecord) : [];
+      const item: ResumeItem = defined({
+        id: itemId(b, "intro", taken),
+        title: text(b.name) ?? "About me",
+        subtitle: text(b.label),
+        image: text(b.image),
+        description: text(b.summary),
+        links: [...link(b.url), ...profiles.flatMap((p) => link(p.url, text(p.network)))],
+      });
+      out.push({ ...RESUME_SECTIONS.basics, items: [item] });
+    }
+  }
+
+  const work = named("work", entries(raw, "work", issues), (e) => text(e.name) ?? text(e.position));
+  if (work.length) {
+    out.push({
+      ...RESUME_SECTIONS.work,
+      items: work.map((e) => {
+        const name = text(e.name);
+        const position = text(e.position);
+        return defined({
+          id: itemId(e, name ?? position!, taken),
+          title: [position, name].filter(Boolean).join(TITLE_SEPARATOR),
+          subtitle: text(e.description),
+          description: text(e.summary),
+          start: date(e.startDate),
+          end: date(e.endDate, true),
+          body: bullets(texts(e.highlights)),
+          links: link(e.url),
+        });
+      }),
+    });
+  }
+
+  const projects = named("projects", entries(raw, "projects", issues), (e) => text(e.name));
+  if (projects.length) {
+    out.push({
+      ...RESUME_SECTIONS.projects,
+      items: projects.map((e) =>
+        defined({
+          id: itemId(e, text(e.name)!, taken),
+          title: text(e.name)!,
+          subtitle: text(e.entity),
+          description: text(e.description),
+          start: date(e.startDate),
+          end: date(e.endDate, true),
+          body: bullets(texts(e.highlights)),
+          links: link(e.url),
+          tags: texts(e.keywords),
+        }),
+      ),
+    });
+  }
+
+  const interests = named("interests", entries(raw, "interests", issues), (e) => text(e.name));
+  if (interests.length) {
+    out.push({
+      ...RESUME_SECTIONS.interests,
+      items: interests.map((e) => defined({ id: itemId(e, text(e.name)!, taken), title: text(e.name)!, tags: texts(e.keywords) })),
+    });
+  }
+
+  if (issues.length) throw new ContentError(issues);
+  return out;
+}
+
+/** `- item` lines of a body, as highlights. */
+const highlights = (body?: string) => (body ?? "").split("\n").flatMap((l) => /^\s*[-*]\s+(.+)$/.exec(l)?.[1] ?? []);
+
+const firstLink = (links: ItemLink[], ...types: ItemLink["type"][]) => types.map((t) => links.find((l) => l.type === t)).find(Boolean)?.url;
+
+const networkOf = (url: string) => {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, "");
+    return host.split(".")[0].replace(/^./, (c) => c.toUpperCase());
+  } catch {
+    return undefined;
+  }
+};
+
+/** The sections as a JSON Resume document; `name` is the person the résumé is about. */
+export function toJsonResume(sections: Section[], name: string): JsonResume {
+  const section = (key: string) => sections.find((s) => s.key === key)?.items ?? [];
+  const [about] = section(RESUME_SECTIONS.basics.key);
+  const site = about && firstLink(about.links, "site");
+
+  return defined({
+    $schema: "https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json",
+    basics: defined({
+      id: about?.id,
+      name,
+      label: about?.subtitle,
+      image: about?.image,
+      url: site,
+      summary: about?.description,
+      profiles: about?.links.filter((l) => l.url !== site).map((l) => defined({ network: l.label ?? networkOf(l.url), url: l.url })),
+    }),
+    work: section(RESUME_SECTIONS.work.key).map((i) => {
+      const at = i.title.lastIndexOf(TITLE_SEPARATOR);
+      return defined({
+        id: i.id,
+        name: at < 0 ? i.title : i.title.slice(at + TITLE_SEPARATOR.length),
+        position: at < 0 ? undefined : i.title.slice(0, at),
+        url: firstLink(i.links, "site", "demo", "repo"),
+        description: i.subtitle,
+        summary: i.description,
+        startDate: i.start,
+        endDate: i.end,
+        highlights: highlights(i.body),
+      });
+    }),
+    projects: section(RESUME_SECTIONS.projects.key).map((i) =>
+      defined({
+        id: i.id,
+        name: i.title,
+        entity: i.subtitle,
+        description: i.description,
+        url: firstLink(i.links, "demo", "site", "repo", "paper"),
+        startDate: i.start,
+        endDate: i.end,
+        highlights: highlights(i.body),
+        keywords: i.tags,
+      }),
+    ),
+    interests: section(RESUME_SECTIONS.interests.key).map((i) => defined({ id: i.id, name: i.title, keywords: i.tags })),
+  });
+}
@@ -0,0 +1,86 @@
+import { guideOrder } from "./guide";
+import { isShelfKey, type ShelfKey } from "./personal/shelves";
+import type { Section, ViewState } from "./types";
+
+/**
+ * URL <-> ViewState mapping
+ * ------------------------------------------------------
+ * Home is `/`, the program guide is `/guide`, search is `/search?q=…`,
+ * settings are `/settings`, a channel is `/<section.key>/<item.id>` and its
+ * detail page adds `/details`. A channel opened from a personal row keeps
+ * that row in `?list=` (`/projects/sig-parser?list=my-list`): the rows are
+ * per visitor, so the path stays the item's own and the static page serves
+ * it. The old
+ * `#home` / `#key=id` hashes are still understood so shared links keep
+ * working; the client redirects them to the path form.
+ */
+
+export const HOME_STATE: ViewState = { mode: "home", focus: { row: 0, col: 0 } };
+
+export function guideState(sections: Section[]): ViewState {
+  return { mode: "guide", focus: { row: 0, col: sections[0] ? (guideOrder(sections[0])[0] ?? 0) : 0 } };
+}
+
+export const SETTINGS_STATE: ViewState = { mode: "settings" };
+
+export function searchState(query = ""): ViewState {
+  return { mode: "search", query, cursor: { row: 0, col: 0 } };
+}
+
+/** Path plus query string for `state`. */
+export function pathFromState(sections: Section[], state: ViewState) {
+  if (state.mode === "home") return "/";
+  if (state.mode === "guide") return "/guide";
+  if (state.mode === "settings") return "/settings";
+  if (state.mode === "search") return state.query ? `/search?${new URLSearchParams({ q: state.query })}` : "/search";
+  const section = sections[state.row];
+  const item = section.items[state.col];
+  const list = state.list ? `?${new URLSearchParams({ list: state.list })}` : "";
+  return `/${section.key}/${item.id}${state.mode === "detail" ? "/details" : ""}${list}`;
+}
+
+/** The personal row in `?list=`, if it names one. */
+export function listFromSearch(search: string): ShelfKey | undefined {
+  const list = new URLSearchParams(search).get("list");
+  return isShelfKey(list) ? list : undefined;
+}
+
+function locate(sections: Section[], key: string, id: string) {
+  const row = sections.findIndex((s) => s.key === key);
+  if (row < 0) return null;
+  const col = sections[row].items.findIndex((i) => i.id === id);
+  if (col < 0) return null;
+  return { row, col };
+}
+
+export function channelState(sections: Section[], key: string, id: string): ViewState | null {
+  const at = locate(sections, key, id);
+  return at && { mode: "channel", ...at };
+}
+
+export function detailState(sections: Section[], key: string, id: string): ViewState | null {
+  const at = locate(sections, key, id);
+  return at && { mode: "detail", ...at };
+}
+
+export function parsePath(sections: Section[], pathname: string, search = ""): ViewState | null {
+  const parts = pathname.split("/").filter(Boolean);
+  if (parts.length === 0) return HOME_STATE;
+  if (parts.length === 1 && parts[0] === "guide") return guideState(sections);
+  if (parts.length === 1 && parts[0] === "settings") return SETTINGS_STATE;
+  if (parts.length === 1 && parts[0] === "search") return searchState(new URLSearchParams(search).get("q") ?? "");
+  const detail = parts.length === 3 && parts[2] === "details";
+  if (parts.length !== 2 && !detail) return null;
+  const at = locate(sections, parts[0], parts[1]);
+  const list = listFromSearch(search);
+  return at && { mode: detail ? "detail" : "channel", ...at, ...(list && { list }) };
+}
+
+/** Legacy `#home` / `#section=itemId` links. */
+export function parseHash(sections: Section[], hash: string): ViewState | null {
+  const h = hash.replace("#", "");
+  if (!h || h === "home") return HOME_STATE;
+  if (h === "guide") return guideState(sections);
+  const [key, id, ...rest] = h.split("=");
+  return rest.length ? null : channelState(sections, key, id);
+}
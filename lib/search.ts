@@ -0,0 +1,95 @@
+import type { Focus, Section } from "./types";
+
+/**
+ * Client-side search
+ * ------------------------------------------------------
+ * A small fuzzy index over every item's title, subtitle, description and
+ * tags. Each query word has to match some field, either as a substring (best
+ * at the start of a word) or as letters in order from a word start ("sgp" →
+ * "SIG Parser"); title and tag matches count for more than description matches.
+ *
+ * Also holds the on-screen keyboard layout the reducer navigates.
+ */
+
+type Entry = { at: Focus; fields: [text: string, weight: number][] };
+
+const normalize = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+// Sections are loaded once per page, so one index per sections array.
+const indexes = new WeakMap<Section[], Entry[]>();
+
+function indexFor(sections: Section[]) {
+  let index = indexes.get(sections);
+  if (!index) {
+    index = sections.flatMap((section, row) =>
+      section.items.map((item, col) => ({
+        at: { row, col },
+        fields: [
+          [normalize(item.title), 4],
+          [normalize(item.tags.join(" ")), 3],
+          [normalize(item.subtitle ?? ""), 2],
+          [normalize(item.description ?? ""), 1],
+        ],
+      })),
+    );
+    indexes.set(sections, index);
+  }
+  return index;
+}
+
+/** 0 = no match; substrings score 2–3, in-order letters under 1. */
+function matchScore(word: string, text: string) {
+  const at = text.indexOf(word);
+  if (at >= 0) return at === 0 || /[^a-z0-9]/.test(text[at - 1]) ? 3 : 2;
+  // Tightest span starting at a word that has the letters in order; loose spreads don't count.
+  let best = Infinity;
+  for (let start = text.indexOf(word[0]); start >= 0; start = text.indexOf(word[0], start + 1)) {
+    if (start > 0 && /[a-z0-9]/.test(text[start - 1])) continue;
+    let i = start;
+    for (let j = 1; j < word.length && i >= 0; j++) i = text.indexOf(word[j], i + 1);
+    if (i < 0) break;
+    best = Math.min(best, i - start + 1);
+  }
+  return best <= word.length * 2 ? word.length / best : 0;
+}
+
+export const SEARCH_LIMIT = 24;
+
+/** Items matching every word of `query`, best first (ties keep content order). */
+export function searchItems(sections: Section[], query: string, limit = SEARCH_LIMIT): Focus[] {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+  const hits: { at: Focus; score: number }[] = [];
+  for (const entry of indexFor(sections)) {
+    let score = 0;
+    for (const word of words) {
+      const best = Math.max(...entry.fields.map(([text, weight]) => matchScore(word, text) * weight));
+      if (!best) {
+        score = 0;
+        break;
+      }
+      score += best;
+    }
+    if (score) hits.push({ at: entry.at, score });
+  }
+  return hits
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((h) => h.at);
+}
+
+// -------------------- On-screen keyboard --------------------
+
+export type KeyCap = string; // a single character, or "space" | "delete" | "clear"
+
+export const KEYBOARD: KeyCap[][] = [..."abcdef|ghijkl|mnopqr|stuvwx|yz1234|567890".split("|").map((r) => [...r]), ["space", "delete", "clear"]];
+
+/** The results rail sits below the keyboard, in cursor row `RESULTS_ROW`. */
+export const RESULTS_ROW = KEYBOARD.length;
+
+export function pressKey(query: string, key: KeyCap) {
+  if (key === "space") return query.endsWith(" ") || !query ? query : `${query} `;
+  if (key === "delete") return query.slice(0, -1);
+  if (key === "clear") return "";
+  return query + key;
+}
@@ -0,0 +1,11 @@
+export const SITE_NAME = "Ayaan TV";
+// Whose portfolio it is: the name on the résumé (/resume, /resume.json).
+export const OWNER_NAME = "Ayaan";
+export const SITE_DESCRIPTION = "Ayaan's portfolio as a TV: experience, projects and hobbies, one channel at a time.";
+
+// Absolute base for Open Graph URLs; set SITE_URL in production.
+export const SITE_URL = process.env.SITE_URL ?? "http://localhost:3000";
+
+// Remote hosts next/image may fetch and resize (next.config.ts); images from
+// anywhere else are shown as they are.
+export const IMAGE_HOSTS = ["images.unsplash.com"];
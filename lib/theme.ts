@@ -0,0 +1,47 @@
+/**
+ * TV skins
+ * ------------------------------------------------------
+ * A skin is a set of CSS variables in app/globals.css, selected with
+ * `<html data-theme>`; Tailwind's `tv-*` and `accent-*` colours read them.
+ * The preference is either a skin or "system", which follows
+ * prefers-color-scheme (OLED when dark, Light when light), and is persisted
+ * to localStorage.
+ */
+
+export const THEMES = ["crt", "oled", "light"] as const;
+export type Theme = (typeof THEMES)[number];
+export type ThemePreference = Theme | "system";
+
+export const THEME_PREFERENCES: ThemePreference[] = ["system", ...THEMES];
+
+const STORAGE_KEY = "tv-portfolio:theme";
+export const LIGHT_QUERY = "(prefers-color-scheme: light)";
+
+const isPreference = (v: unknown): v is ThemePreference => THEME_PREFERENCES.includes(v as ThemePreference);
+
+export const resolveTheme = (pref: ThemePreference, prefersLight: boolean): Theme =>
+  pref === "system" ? (prefersLight ? "light" : "oled") : pref;
+
+export function loadTheme(): ThemePreference {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isPreference(saved) ? saved : "system";
+  } catch {
+    return "system";
+  }
+}
+
+export function saveTheme(pref: ThemePreference) {
+  try {
+    if (pref === "system") localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, pref);
+  } catch {
+    // Private mode / quota: the choice just won't persist.
+  }
+}
+
+/**
+ * Inlined in <head> (app/layout.tsx) so the saved skin applies before first
+ * paint instead of flashing the default.
+ */
+export const THEME_SCRIPT = `try{var t=localStorage.getItem(${JSON.stringify(STORAGE_KEY)});if(${JSON.stringify(THEMES)}.indexOf(t)<0)t=matchMedia(${JSON.stringify(LIGHT_QUERY)}).matches?"light":"oled";document.documentElement.dataset.theme=t}catch(e){}`;
@@ -0,0 +1,53 @@
+import type { Accent } from "./accents";
+import type { Locale } from "./i18n/locales";
+import type { ShelfKey } from "./personal/shelves";
+
+export type LinkType = "repo" | "demo" | "paper" | "site";
+
+export type ItemLink = { type: LinkType; url: string; label?: string };
+
+export type Media =
+  | { type: "image"; src: string; alt?: string }
+  | { type: "video"; src: string; poster?: string; alt?: string };
+
+export type Item = {
+  id: string;
+  title: string;
+  subtitle?: string;
+  image?: string; // /public images or remote URLs
+  video?: string; // preview clip for tiles and ChannelView (/public or remote)
+  poster?: string; // still frame for the clip; falls back to `image`
+  blur?: string; // tiny data: URL of a local `image`, made by the loader for next/image placeholders
+  description?: string;
+  channel: number; // TV channel number; pinned in content or auto-assigned by the loader
+  start?: string; // YYYY-MM or YYYY-MM-DD; places the item in the program guide
+  end?: string; // omitted = ongoing
+  body?: string; // long-form Markdown for the detail page
+  links: ItemLink[];
+  tags: string[];
+  media: Media[];
+  translations?: Partial<Record<Locale, ItemText>>; // from <id>.<locale>.md / .json
+};
+
+/** The translatable part of an Item; anything left out falls back to the default locale. */
+export type ItemText = Partial<Pick<Item, "title" | "subtitle" | "description" | "body" | "tags">>;
+
+export type Section = {
+  key: string; // used in URL hash
+  label: string;
+  color: Accent;
+  items: Item[];
+  translations?: Partial<Record<Locale, { label: string }>>;
+};
+
+export type Focus = { row: number; col: number };
+
+// `query` on a channel/detail opened from search lets Back return to the results;
+// `list` on one opened from a personal row (lib/personal/shelves.ts) returns to that row.
+export type ViewState =
+  | { mode: "home"; focus: Focus }
+  | { mode: "guide"; focus: Focus }
+  | { mode: "search"; query: string; cursor: Focus } // cursor rows: keyboard, then results (lib/search.ts)
+  | { mode: "settings" }
+  | { mode: "channel"; row: number; col: number; from?: "guide" | "search"; query?: string; list?: ShelfKey }
+  | { mode: "detail"; row: number; col: number; from?: "guide" | "search"; query?: string; list?: ShelfKey };
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from "react";
+import { LIGHT_QUERY, loadTheme, resolveTheme, saveTheme, type ThemePreference } from "./theme";
+
+/** Current skin preference; applies it to <html data-theme> and tracks the OS scheme for "system". */
+export function useTheme(): [ThemePreference, (pref: ThemePreference) => void] {
+  // null until localStorage is read; THEME_SCRIPT has already applied the saved skin.
+  const [pref, setPref] = useState<ThemePreference | null>(null);
+  useEffect(() => setPref(loadTheme()), []);
+
+  useEffect(() => {
+    if (!pref) return;
+    const mq = window.matchMedia(LIGHT_QUERY);
+    const apply = () => (document.documentElement.dataset.theme = resolveTheme(pref, mq.matches));
+    apply();
+    if (pref !== "system") return;
+    mq.addEventListener("change", apply);
+    return () => mq.removeEventListener("change", apply);
+  }, [pref]);
+
+  const choose = useCallback((next: ThemePreference) => {
+    setPref(next);
+    saveTheme(next);
+  }, []);
+  return [pref ?? "system", choose];
+}
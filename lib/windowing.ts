@@ -0,0 +1,114 @@
+import { useEffect, useLayoutEffect, useRef, useState, type RefObject } from "react";
+
+/**
+ * Windowed rows and rails for the home screen
+ * ------------------------------------------------------
+ * Tiles and rows have fixed sizes, so which ones are on screen follows from
+ * the scroll offset alone: nothing is measured per tile, and a focus move or
+ * a scroll frame costs the same with 9 items or 10,000. Only the visible
+ * tiles and rows plus an overscan buffer are mounted. Offsets are logical
+ * (from the inline start), also in right-to-left layouts.
+ */
+
+// CSS pixels; RowRail's w-56 h-36 tiles with gap-4, HomeGrid's rows (label + rail) with 24px between.
+export const TILE = { width: 224, height: 144, gap: 16 };
+export const TILE_STRIDE = TILE.width + TILE.gap;
+export const ROW = { height: 180, gap: 24 };
+export const ROW_STRIDE = ROW.height + ROW.gap;
+
+export const OVERSCAN = { tiles: 3, rows: 1 };
+
+// Before layout (server render, tests without layout) assume a TV-sized screen.
+const FALLBACK_VIEWPORT = { x: 1280, y: 720 };
+
+export type Axis = "x" | "y";
+export type Range = readonly [first: number, end: number];
+
+/** Indices [first, end) of `count` items of `stride` px that a `viewport` at `offset` shows, plus `overscan` each side. */
+export function visibleRange(offset: number, viewport: number, stride: number, count: number, overscan: number): Range {
+  const first = Math.floor(offset / stride) - overscan;
+  const end = Math.ceil((offset + viewport) / stride) + overscan;
+  return [Math.max(0, Math.min(count, first)), Math.max(0, Math.min(count, end))];
+}
+
+/** The offset that centres item `index` (of `size` px) in a `viewport`, within a `length` px scroll range. */
+export function centredOffset(index: number, stride: number, size: number, viewport: number, length: number) {
+  return Math.max(0, Math.min(length - viewport, index * stride + size / 2 - viewport / 2));
+}
+
+/** The least scroll that brings [start, end) into a `viewport` at `offset`. */
+export function nearestOffset(start: number, end: number, offset: number, viewport: number) {
+  if (start < offset) return start;
+  if (end > offset + viewport) return end - viewport;
+  return offset;
+}
+
+const rtl = (el: HTMLElement) => getComputedStyle(el).direction === "rtl";
+
+export function readOffset(el: HTMLElement, axis: Axis) {
+  return axis === "x" ? Math.abs(el.scrollLeft) : el.scrollTop;
+}
+
+export function scrollToOffset(el: HTMLElement, axis: Axis, offset: number, smooth: boolean) {
+  const behavior = smooth ? "smooth" : "instant";
+  // Right-to-left scrollLeft runs from 0 towards negative.
+  if (axis === "x") el.scrollTo({ left: rtl(el) ? -offset : offset, behavior });
+  else el.scrollTo({ top: offset, behavior });
+}
+
+const same = (a: Range, b: Range) => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * The range of items `el` shows along `axis`, updated at most once a frame
+ * and only re-rendering when it changes. Starts scrolled to `initial`;
+ * `onScrolled` hears every new offset (for remembering it).
+ */
+export function useVisibleRange(
+  ref: RefObject<HTMLElement | null>,
+  axis: Axis,
+  { stride, count, overscan, initial = 0, onScrolled }: { stride: number; count: number; overscan: number; initial?: number; onScrolled?: (offset: number) => void },
+): Range {
+  const measure = (offset: number, viewport: number) => visibleRange(offset, viewport || FALLBACK_VIEWPORT[axis], stride, count, overscan);
+  const [range, setRange] = useState<Range>(() => measure(initial, 0));
+
+  const latest = useRef({ measure, onScrolled });
+  useEffect(() => {
+    latest.current = { measure, onScrolled };
+  });
+
+  // Restore before paint, so a remounted row doesn't flash at its start.
+  // Only the first `initial` counts; later ones are this element's own offsets.
+  const start = useRef(initial);
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (el && start.current) scrollToOffset(el, axis, start.current, false);
+  }, [ref, axis]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let frame = 0;
+    const read = () => {
+      frame = 0;
+      const offset = readOffset(el, axis);
+      const next = latest.current.measure(offset, axis === "x" ? el.clientWidth : el.clientHeight);
+      setRange((r) => (same(r, next) ? r : next));
+      latest.current.onScrolled?.(offset);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(read);
+    };
+    read();
+    el.addEventListener("scroll", schedule, { passive: true });
+    const resize = typeof ResizeObserver === "undefined" ? null : new ResizeObserver(schedule);
+    resize?.observe(el);
+    return () => {
+      cancelAnimationFrame(frame);
+      el.removeEventListener("scroll", schedule);
+      resize?.disconnect();
+    };
+  }, [ref, axis, count]);
+
+  // When items go away, the range is re-measured after this render; until then it mustn't run past them.
+  return range[1] > count ? [Math.min(range[0], count), count] : range;
+}
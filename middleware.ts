@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { hasPassword } from "./lib/basicAuth";
+
+/**
+ * Password gate for private pages (HTTP Basic auth; any user name). Each
+ * prefix takes its password from an environment variable; with the variable
+ * unset the page is switched off entirely.
+ */
+const PROTECTED: { prefix: string; env: string; realm: string }[] = [
+  { prefix: "/stats", env: "STATS_PASSWORD", realm: "Stats" },
+  { prefix: "/admin", env: "ADMIN_PASSWORD", realm: "Admin" },
+];
+
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const rule = PROTECTED.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  if (!rule) return NextResponse.next();
+  const password = process.env[rule.env];
+  if (!password) return new NextResponse("Not found", { status: 404 });
+  if (hasPassword(request.headers.get("authorization"), password)) return NextResponse.next();
+  return new NextResponse("Authentication required", {
+    status: 401,
+    headers: { "WWW-Authenticate": `Basic realm="${rule.realm}", charset="UTF-8"` },
+  });
+}
+
+export const config = { matcher: ["/stats/:path*", "/admin/:path*"] };
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
+import { IMAGE_HOSTS } from "./lib/site";
 
 const nextConfig: NextConfig = {
-  // Basic configuration for React support
+  images: {
+    remotePatterns: IMAGE_HOSTS.map((hostname) => ({ protocol: "https", hostname })),
+  },
 };
 
 export default nextConfig;
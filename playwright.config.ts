@@ -0,0 +1,27 @@
+import { defineConfig, devices } from "@playwright/test";
+
+/**
+ * Browser tests in e2e/ against a production build (`npm run test:e2e`).
+ * The unit and component tests are Vitest's, in tests/.
+ */
+
+const PORT = 3100;
+
+export default defineConfig({
+  testDir: "e2e",
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    // The offline worker would answer some requests from its cache.
+    serviceWorkers: "block",
+    trace: "on-first-retry",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: `npm run build && npm run start -- --port ${PORT}`,
+    url: `http://localhost:${PORT}`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 300_000,
+  },
+});
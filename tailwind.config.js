@@ -1,9 +1,28 @@
 /** @type {import('tailwindcss').Config} */
+
+// Skin tokens are CSS variables (app/globals.css) holding RGB channels.
+const rgb = (name) => `rgb(var(${name}) / <alpha-value>)`;
+
+// Keep in sync with lib/accents.ts.
+const ACCENT_NAMES = ["blue", "fuchsia", "emerald", "orange", "violet", "rose"];
+
 module.exports = {
   content: [
     "./app/**/*.{js,ts,jsx,tsx}",
     "./components/**/*.{js,ts,jsx,tsx}",
+    "./lib/**/*.{js,ts,jsx,tsx}",
   ],
-  theme: { extend: {} },
+  theme: {
+    extend: {
+      colors: {
+        tv: Object.fromEntries(
+          ["page", "page-ink", "bezel", "bezel-edge", "stand", "screen", "ink", "focus", "panel", "panel-ink"].map((t) => [t, rgb(`--tv-${t}`)]),
+        ),
+        accent: Object.fromEntries(
+          ACCENT_NAMES.map((n) => [n, { from: rgb(`--accent-${n}-from`), to: rgb(`--accent-${n}-to`) }]),
+        ),
+      },
+    },
+  },
   plugins: [],
 }
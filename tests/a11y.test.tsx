@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import axe from "axe-core";
+import PhoneRemote from "../components/PhoneRemote";
+import TVPortfolio from "../components/TVPortfolio";
+import { key, SECTIONS } from "./fixtures";
+
+// Keys go where a real one would: to whatever has focus.
+const focused = () => document.activeElement ?? document.body;
+
+async function violations(container: Element) {
+  // color-contrast needs real layout, which jsdom doesn't have.
+  const { violations } = await axe.run(container, { rules: { "color-contrast": { enabled: false } } });
+  return violations.map((v) => `${v.id}: ${v.nodes.map((n) => n.target.join(" ")).join(", ")}`);
+}
+
+describe("accessibility", () => {
+  it("has no axe violations on the home screen", async () => {
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it("has no axe violations in a channel, its details and the guide", async () => {
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    await key("Enter");
+    await screen.findByRole("region", { name: "Channel 101" });
+    expect(await violations(container)).toEqual([]);
+    await key("Enter");
+    await screen.findByRole("dialog", { name: "who i am details" });
+    expect(await violations(container)).toEqual([]);
+    await key("g");
+    await screen.findByRole("region", { name: "Program guide" });
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it("has no axe violations on the search screen", async () => {
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    await key("/");
+    const field = await screen.findByRole("searchbox", { name: "Search" });
+    fireEvent.change(field, { target: { value: "skil" } });
+    await screen.findByRole("grid", { name: "Search results" });
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it("has no axe violations on the settings screen", async () => {
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    fireEvent.click(screen.getByRole("button", { name: "Settings" }));
+    await screen.findByRole("radiogroup", { name: "TV style" });
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it("exposes the home screen as a grid with labelled rows", () => {
+    render(<TVPortfolio sections={SECTIONS} />);
+    const grid = screen.getByRole("grid", { name: "Channels" });
+    expect(grid.querySelectorAll("[role=row]")).toHaveLength(SECTIONS.length);
+    expect(screen.getAllByRole("rowheader").map((h) => h.textContent)).toEqual(["About Me", "Projects"]);
+  });
+
+  it("moves DOM focus and the roving tabindex with the TV focus", async () => {
+    render(<TVPortfolio sections={SECTIONS} />);
+    const tiles = () => screen.getAllByRole("gridcell").map((c) => c.querySelector("button")!);
+    expect(tiles().map((t) => t.tabIndex)).toEqual([0, -1, -1, -1]);
+
+    await key("ArrowRight", focused());
+    expect(tiles().map((t) => t.tabIndex)).toEqual([-1, 0, -1, -1]);
+    expect(document.activeElement).toBe(tiles()[1]);
+
+    await key("ArrowDown", focused());
+    expect(document.activeElement).toBe(tiles()[2]);
+  });
+
+  it("focuses the channel heading on entry and the tile again on return", async () => {
+    render(<TVPortfolio sections={SECTIONS} />);
+    await key("ArrowRight", focused());
+    await key("Enter");
+    const heading = await screen.findByRole("heading", { level: 1, name: "skills" });
+    await waitFor(() => expect(document.activeElement).toBe(heading));
+
+    await key("Escape", focused());
+    await waitFor(() => expect(document.activeElement?.getAttribute("aria-label")).toMatch(/^skills,/));
+  });
+
+  it("announces channel changes in a live region", async () => {
+    render(<TVPortfolio sections={SECTIONS} />);
+    const status = screen.getByRole("status");
+    await key("Enter");
+    expect(status.textContent).toBe("Channel 101: who i am, About Me");
+    await key("ArrowRight", focused());
+    expect(status.textContent).toBe("Channel 102: skills, About Me");
+  });
+
+  it("leaves keys in text fields alone", () => {
+    render(
+      <>
+        <input aria-label="Note" />
+        <TVPortfolio sections={SECTIONS} />
+      </>,
+    );
+    const input = screen.getByRole("textbox", { name: "Note" });
+    input.focus();
+    for (const k of ["Backspace", "ArrowRight", " ", "g"]) {
+      expect(fireEvent.keyDown(input, { key: k })).toBe(true); // not preventDefault-ed
+    }
+    expect(screen.getAllByRole("gridcell")[0].querySelector("button")!.tabIndex).toBe(0);
+  });
+
+  it("operates the Remote as a labelled toolbar with arrow-key focus", async () => {
+    render(<TVPortfolio sections={SECTIONS} />);
+    const toolbar = screen.getByRole("toolbar", { name: "Remote control" });
+    const buttons = Array.from(toolbar.querySelectorAll("button"));
+    expect(buttons.filter((b) => b.tabIndex === 0)).toHaveLength(1);
+
+    buttons[0].focus();
+    await key("ArrowRight", focused());
+    expect(document.activeElement).toBe(buttons[1]);
+    // The TV focus stays put while arrowing through the Remote.
+    expect(screen.getAllByRole("gridcell")[0].querySelector("button")!.tabIndex).toBe(0);
+  });
+
+  it("mirrors left/right and sets <html dir> in right-to-left languages", async () => {
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    const language = screen.getByRole("button", { name: "Language: English" });
+    fireEvent.click(language); // es
+    fireEvent.click(screen.getByRole("button", { name: "Idioma: Español" })); // ar
+    await waitFor(() => expect(document.documentElement.dir).toBe("rtl"));
+    expect(document.documentElement.lang).toBe("ar");
+    expect(window.location.search).toBe("?lang=ar");
+    expect(await violations(container)).toEqual([]);
+
+    await key("ArrowLeft");
+    expect(screen.getAllByRole("gridcell")[1].querySelector("button")!.tabIndex).toBe(0);
+  });
+
+  it("asks for a pairing code on the phone remote", async () => {
+    const { container } = render(<PhoneRemote />);
+    const input = screen.getByRole("textbox", { name: "Pairing code" });
+    expect(await violations(container)).toEqual([]);
+
+    fireEvent.change(input, { target: { value: "abc-23" } });
+    expect(input).toHaveProperty("value", "ABC23");
+    expect(screen.getByRole("button", { name: "Connect" })).toHaveProperty("disabled", true);
+  });
+});
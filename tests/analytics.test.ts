@@ -0,0 +1,109 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "../app/api/stats/route";
+import { forKnownItems, MAX_BATCH, MAX_DWELL_MS, parseBatch, type AnalyticsEvent } from "../lib/analytics/events";
+import { applyEvents, emptyStats, readStats, recordEvents, STATS_FILE } from "../lib/analytics/store";
+
+// The route writes to STATS_FILE, read when the store is imported.
+const routeStats = await vi.hoisted(async () => {
+  const { tmpdir } = await import("node:os");
+  const { join } = await import("node:path");
+  return (process.env.STATS_FILE = join(tmpdir(), `stats-route-${process.pid}.json`));
+});
+
+let tmp: string;
+
+beforeEach(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "stats-"));
+});
+
+afterEach(() => fs.rm(tmp, { recursive: true, force: true }));
+afterAll(() => fs.rm(routeStats, { force: true }));
+
+const post = (body: string, headers: Record<string, string> = {}) =>
+  POST(new Request("http://localhost/api/stats", { method: "POST", body, headers }));
+
+describe("viewing stats", () => {
+  it("keeps only well-formed events from a batch", () => {
+    expect(parseBatch(null)).toEqual([]);
+    expect(parseBatch({ events: "open" })).toEqual([]);
+    expect(
+      parseBatch({
+        events: [
+          { type: "open", item: "projects/sig-parser", source: "remote" },
+          { type: "open", item: "../etc/passwd", source: "remote" },
+          { type: "open", item: "projects/sig-parser", source: "telepathy" },
+          { type: "dwell", item: "about/intro", ms: -5 },
+          { type: "dwell", item: "about/intro", ms: 1e9 },
+          { type: "reach", stage: "checkout" },
+          { type: "exit", screen: "home", item: 42 },
+          { type: "drop", table: "stats" },
+          "open",
+        ],
+      }),
+    ).toEqual([
+      { type: "open", item: "projects/sig-parser", source: "remote" },
+      { type: "dwell", item: "about/intro", ms: MAX_DWELL_MS },
+      { type: "exit", screen: "home" },
+    ]);
+    const flood = Array.from({ length: MAX_BATCH + 10 }, () => ({ type: "reach", stage: "visit" }));
+    expect(parseBatch({ events: flood })).toHaveLength(MAX_BATCH);
+  });
+
+  it("folds events into totals and the funnel", () => {
+    const events: AnalyticsEvent[] = [
+      { type: "reach", stage: "visit" },
+      { type: "nav", from: "home", to: "channel", source: "keyboard" },
+      { type: "open", item: "about/intro", source: "keyboard" },
+      { type: "reach", stage: "channel" },
+      { type: "dwell", item: "about/intro", ms: 4000 },
+      { type: "dwell", item: "about/intro", ms: 2000 },
+      { type: "exit", screen: "channel", item: "about/intro" },
+    ];
+    const stats = applyEvents(emptyStats(), events, new Date("2026-03-04T12:00:00Z"));
+    expect(stats.since).toBe("2026-03-04");
+    expect(stats.days).toEqual({ "2026-03-04": 1 });
+    expect(stats.items["about/intro"]).toEqual({ opens: 1, dwellMs: 6000, dwells: 2, exits: 1 });
+    expect(stats.sources.keyboard).toBe(1);
+    expect(stats.paths).toEqual({ "home>channel": 1 });
+    expect(stats.funnel).toEqual({ visit: 1, channel: 1, detail: 0, link: 0 });
+    expect(stats.exits.channel).toBe(1);
+  });
+
+  it("writes one batch at a time so concurrent posts all count", async () => {
+    const file = path.join(tmp, "nested", "stats.json");
+    const open: AnalyticsEvent = { type: "open", item: "about/intro", source: "phone" };
+    await Promise.all(Array.from({ length: 20 }, () => recordEvents([open], file)));
+    const stats = await readStats(file);
+    expect(stats.items["about/intro"].opens).toBe(20);
+    expect(stats.sources.phone).toBe(20);
+    expect(await fs.readdir(path.dirname(file))).toEqual(["stats.json"]);
+  });
+
+  it("turns away Do Not Track, Global Privacy Control, oversized and malformed posts", async () => {
+    const batch = JSON.stringify({ events: [{ type: "reach", stage: "visit" }] });
+    expect((await post(batch, { dnt: "1" })).status).toBe(204);
+    expect((await post(batch, { "sec-gpc": "1" })).status).toBe(204);
+    expect((await post("x".repeat(20_000))).status).toBe(413);
+    expect((await post(batch, { "content-length": "1000000" })).status).toBe(413);
+    expect((await post("{not json")).status).toBe(400);
+  });
+
+  it("records only items that are in the content", async () => {
+    expect(STATS_FILE).toBe(routeStats);
+    const events = [
+      { type: "open", item: "about/intro", source: "remote" },
+      { type: "open", item: "zzz/made-up", source: "remote" },
+      { type: "dwell", item: "zzz/made-up", ms: 1000 },
+      { type: "exit", screen: "channel", item: "zzz/made-up" },
+    ];
+    expect((await post(JSON.stringify({ events }))).status).toBe(204);
+    const stats = await readStats(routeStats);
+    expect(Object.keys(stats.items)).toEqual(["about/intro"]);
+    expect(stats.exits.channel).toBe(1);
+
+    expect(forKnownItems([{ type: "reach", stage: "visit" }, { type: "dwell", item: "a/b", ms: 5 }], new Set())).toEqual([{ type: "reach", stage: "visit" }]);
+  });
+});
@@ -0,0 +1,81 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { move, toDraft } from "../lib/content/draft";
+import { CONTENT_DIR, loadSectionsFrom } from "../lib/content/load";
+import { readRedirects } from "../lib/content/redirects";
+import { ContentError } from "../lib/content/schema";
+import { saveDraft } from "../lib/content/store";
+
+let tmp: string;
+let root: string;
+let redirects: string;
+
+beforeEach(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "content-"));
+  root = path.join(tmp, "sections");
+  redirects = path.join(tmp, "redirects.json");
+  await fs.cp(CONTENT_DIR, root, { recursive: true });
+});
+
+afterEach(() => fs.rm(tmp, { recursive: true, force: true }));
+
+describe("content store", () => {
+  it("saves an unchanged draft without changing what loads", async () => {
+    const before = await loadSectionsFrom(root);
+    await saveDraft(toDraft(before), root, redirects);
+    expect(await loadSectionsFrom(root)).toEqual(before);
+    await expect(fs.access(redirects)).rejects.toThrow();
+  });
+
+  it("edits, reorders and renames, keeping translations, and records redirects", async () => {
+    const draft = toDraft(await loadSectionsFrom(root));
+    const about = draft.findIndex((s) => s.key === "about");
+    draft[about].items = move(draft[about].items, 1, 0);
+    const intro = draft[about].items.findIndex((i) => i.id === "intro");
+    draft[about].items[intro] = { ...draft[about].items[intro], id: "hello", subtitle: "" };
+    draft[about].key = "me";
+    await saveDraft(draft, root, redirects);
+
+    const me = (await loadSectionsFrom(root)).find((s) => s.key === "me")!;
+    expect(me.items.map((i) => i.id)).toEqual(["strengths", "hello"]);
+    const hello = me.items[1];
+    expect(hello.subtitle).toBeUndefined();
+    expect(hello.translations?.es?.title).toBeTruthy();
+    expect(await readRedirects(redirects)).toEqual({ "about/intro": "me/hello", "about/strengths": "me/strengths" });
+
+    // Renaming back drops the redirects from the live paths instead of looping.
+    const again = toDraft(await loadSectionsFrom(root));
+    const r = again.findIndex((s) => s.key === "me");
+    again[r].key = "about";
+    again[r].items[1].id = "intro";
+    await saveDraft(again, root, redirects);
+    expect(await readRedirects(redirects)).toEqual({ "me/hello": "about/intro", "me/strengths": "about/strengths" });
+  });
+
+  it("rejects a draft that would not load and leaves the content alone", async () => {
+    const before = await loadSectionsFrom(root);
+    const draft = toDraft(before);
+    draft[1].items[0].id = draft[0].items[0].id;
+    draft[0].items[1].title = "";
+    const error = await saveDraft(draft, root, redirects).catch((e) => e);
+    expect(error).toBeInstanceOf(ContentError);
+    expect(error.issues).toEqual(expect.arrayContaining([expect.stringMatching(/duplicate item id/), expect.stringMatching(/missing "title"/)]));
+    expect(await loadSectionsFrom(root)).toEqual(before);
+  });
+
+  it("lists frontmatter that isn't valid YAML as an issue", async () => {
+    await fs.writeFile(path.join(root, "about", "intro.md"), "---\ntitle: [unclosed\n---\nBody\n");
+    const error = await loadSectionsFrom(root).catch((e) => e);
+    expect(error).toBeInstanceOf(ContentError);
+    expect(error.issues).toEqual([expect.stringMatching(/^content\/sections\/about\/intro\.md: /)]);
+  });
+
+  it("refuses names that are not slugs before touching the disk", async () => {
+    const draft = toDraft(await loadSectionsFrom(root));
+    draft[0].key = "../escape";
+    await expect(saveDraft(draft, root, redirects)).rejects.toThrow(/lowercase slug/);
+    await expect(fs.access(path.join(tmp, "escape"))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,45 @@
+import { act, fireEvent } from "@testing-library/react";
+import { reduce, type Command, type CommandType } from "../lib/navigation";
+import type { Shelf } from "../lib/personal/shelves";
+import type { Item, Section, ViewState } from "../lib/types";
+
+const item = (id: string, channel: number, extra: Partial<Item> = {}): Item => ({
+  id,
+  title: id.replace(/-/g, " "),
+  subtitle: `${id} subtitle`,
+  image: `/${id}.jpg`,
+  channel,
+  links: [],
+  tags: [],
+  media: [],
+  ...extra,
+});
+
+export const SECTIONS: Section[] = [
+  { key: "about", label: "About Me", color: "blue", items: [item("who-i-am", 101), item("skills", 102)] },
+  {
+    key: "projects",
+    label: "Projects",
+    color: "emerald",
+    items: [item("tv-portfolio", 201, { start: "2024-01" }), item("compiler", 202, { start: "2022-06", end: "2023-02" })],
+  },
+];
+
+/** Commands that are nothing but their type: no digit, channel number or query. */
+export type BareCommandType = Exclude<CommandType, "number" | "tune">;
+
+const bare = (type: BareCommandType): Command => ({ type });
+
+/** Replays commands through the reducer, with `shelves` as the home screen's personal rows. */
+export const runWith =
+  (shelves: Shelf[]) =>
+  (sections: Section[], state: ViewState, ...types: BareCommandType[]) =>
+    types.reduce((s, type) => reduce(sections, s, bare(type), shelves), state);
+
+export const run = runWith([]);
+
+/** A key press on the page (or on `target`), awaited so AnimatePresence can swap screens. */
+export const key = (k: string, target: Element = document.body) =>
+  act(() => {
+    fireEvent.keyDown(target, { key: k });
+  });
@@ -0,0 +1,49 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { fireEvent, render } from "@testing-library/react";
+import sharp from "sharp";
+import RowRail from "../components/RowRail";
+import { blurFor } from "../lib/content/placeholders";
+import { isOptimizable, neighborImages } from "../lib/images";
+import { SECTIONS } from "./fixtures";
+
+describe("images", () => {
+  it("falls back to a title card when a tile image fails to load", () => {
+    const { container } = render(<RowRail section={SECTIONS[0]} active focusedCol={0} onSelect={() => {}} />);
+    const img = container.querySelector("img")!;
+    expect(img.getAttribute("srcset")).toMatch(/_next\/image\?url=%2Fwho-i-am\.jpg/);
+    fireEvent.error(img);
+    const card = container.querySelector("[data-title-card]")!;
+    expect(card.textContent).toBe("who i am");
+    expect(card.className).toMatch(/from-accent-blue-from/);
+  });
+
+  it("finds the neighbours one move away", () => {
+    expect(neighborImages(SECTIONS, 0, 1, true)).toEqual(["/who-i-am.jpg", "/tv-portfolio.jpg"]);
+    expect(neighborImages(SECTIONS, 1, 0, false)).toEqual(["/compiler.jpg"]);
+  });
+
+  it("only optimizes local images and configured hosts", () => {
+    expect(isOptimizable("/a.jpg")).toBe(true);
+    expect(isOptimizable("//evil.example/a.jpg")).toBe(false);
+    expect(isOptimizable("https://images.unsplash.com/photo-1")).toBe(true);
+    expect(isOptimizable("https://example.com/a.jpg")).toBe(false);
+  });
+
+  it("makes blur placeholders for local images and reports missing ones", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "public-"));
+    try {
+      await sharp({ create: { width: 64, height: 32, channels: 3, background: "#f00" } }).png().toFile(path.join(dir, "red.png"));
+      const issues: string[] = [];
+      expect(await blurFor("/red.png", "x.md", issues, dir)).toMatch(/^data:image\/png;base64,/);
+      expect(await blurFor("https://images.unsplash.com/a", "x.md", issues, dir)).toBeUndefined();
+      expect(await blurFor("/gone.png", "x.md", issues, dir)).toBeUndefined();
+      expect(await blurFor("/../escape.png", "x.md", issues, dir)).toBeUndefined();
+      expect(issues).toEqual(['x.md: image "/gone.png" is not in public/', 'x.md: image "/../escape.png" is outside public/']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import TVPortfolio from "../components/TVPortfolio";
+import { attractPlaylist, DEFAULT_KIOSK, kioskFromSearch, withKiosk } from "../lib/kiosk";
+import { SECTIONS } from "./fixtures";
+
+afterEach(() => vi.useRealTimers());
+
+const wait = (ms: number) =>
+  act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+
+describe("attract mode", () => {
+  it("reads its options from the URL", () => {
+    expect(kioskFromSearch("")).toEqual(DEFAULT_KIOSK);
+    expect(kioskFromSearch("?kiosk=1&interval=5&order=shuffle")).toEqual({ enabled: true, idleMs: 30_000, intervalMs: 5_000, order: "shuffle" });
+    expect(kioskFromSearch("?kiosk=0").enabled).toBe(false);
+    expect(kioskFromSearch("?idle=1&interval=abc&order=random")).toEqual(DEFAULT_KIOSK);
+    // Options alone don't turn it on.
+    expect(kioskFromSearch("?idle=45&order=shuffle").enabled).toBe(false);
+    expect(withKiosk("/about/skills?lang=es", "?lang=en&kiosk=1&idle=45")).toBe("/about/skills?lang=es&kiosk=1&idle=45");
+  });
+
+  it("plays every item once, in order or shuffled", () => {
+    const inOrder = attractPlaylist(SECTIONS, "sequential");
+    expect(inOrder).toEqual([{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 1, col: 0 }, { row: 1, col: 1 }]);
+    const shuffled = attractPlaylist(SECTIONS, "shuffle", () => 0);
+    expect(shuffled).not.toEqual(inOrder);
+    expect(shuffled).toEqual(expect.arrayContaining(inOrder));
+  });
+
+  it("stays off without ?kiosk=1, however long the TV is left", async () => {
+    vi.useFakeTimers();
+    history.replaceState(null, "", "/");
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    await wait(60 * 60_000);
+    expect(container.querySelector("[data-attract]")).toBeNull();
+    expect(container.querySelector("[data-screensaver]")).toBeNull();
+  });
+
+  it("surfs every channel when idle, then the screensaver, and wakes to the same screen", async () => {
+    vi.useFakeTimers();
+    history.replaceState(null, "", "/?kiosk=1&interval=2");
+    const { container } = render(<TVPortfolio sections={SECTIONS} />);
+    act(() => {
+      fireEvent.keyDown(document.body, { key: "ArrowDown" });
+    });
+    await wait(30_000);
+    const attract = container.querySelector("[data-attract]")!;
+    expect(attract.textContent).toContain("1 / 4");
+    expect(attract.querySelector("h1")!.textContent).toBe("who i am");
+    await wait(2_000);
+    expect(attract.querySelector("h1")!.textContent).toBe("skills");
+    // Each channel's timer starts once the previous one has rendered.
+    for (let i = 2; i <= 4; i++) await wait(2_000);
+    expect(container.querySelector("[data-screensaver]")).not.toBeNull();
+
+    act(() => {
+      fireEvent.keyDown(document.body, { key: "Enter" });
+    });
+    expect(container.querySelector("[data-attract]")).toBeNull();
+    // The waking key press isn't also an Enter on the focused tile.
+    expect(screen.getByRole("grid").querySelector('[tabindex="0"]')!.getAttribute("aria-label")).toMatch(/^tv portfolio/);
+    expect(window.location.pathname + window.location.search).toBe("/?kiosk=1&interval=2");
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { commandFromKey, DEFAULT_BINDINGS, rebind } from "../lib/input/keyboard";
+import { mirrorCommand, reduce } from "../lib/navigation";
+import { HOME_STATE } from "../lib/routes";
+import type { Section, ViewState } from "../lib/types";
+import { run, SECTIONS } from "./fixtures";
+
+const home = (row: number, col: number): ViewState => ({ mode: "home", focus: { row, col } });
+
+describe("navigation", () => {
+  it("moves home focus within the grid and stops at its edges", () => {
+    expect(run(SECTIONS, HOME_STATE, "right")).toEqual(home(0, 1));
+    expect(run(SECTIONS, HOME_STATE, "right", "right", "right")).toEqual(home(0, 1));
+    expect(run(SECTIONS, HOME_STATE, "left", "up")).toEqual(home(0, 0));
+    // Changing rows starts at the first tile.
+    expect(run(SECTIONS, home(0, 1), "down")).toEqual(home(1, 0));
+    expect(run(SECTIONS, home(1, 1), "down", "down")).toEqual(home(1, 1));
+  });
+
+  it("copes with empty sections and an empty catalog", () => {
+    const withEmpty: Section[] = [SECTIONS[0], { ...SECTIONS[1], items: [] }];
+    expect(run(withEmpty, home(0, 1), "down")).toEqual(home(1, 0));
+    expect(run(withEmpty, home(1, 0), "right", "ok")).toEqual(home(1, 0));
+    expect(run([], HOME_STATE, "down", "right", "ok")).toEqual(HOME_STATE);
+    expect(run([], HOME_STATE, "channelUp")).toEqual(HOME_STATE);
+  });
+
+  it("opens the focused tile and goes back to it", () => {
+    const channel = run(SECTIONS, home(1, 1), "ok");
+    expect(channel).toEqual({ mode: "channel", row: 1, col: 1 });
+    expect(run(SECTIONS, channel, "ok")).toEqual({ mode: "detail", row: 1, col: 1 });
+    expect(run(SECTIONS, channel, "ok", "back", "back")).toEqual(home(1, 1));
+    expect(run(SECTIONS, channel, "up")).toEqual(home(1, 1));
+  });
+
+  it("surfs within a section and stops at its first and last item", () => {
+    const last: ViewState = { mode: "channel", row: 1, col: 1 };
+    expect(run(SECTIONS, last, "right")).toEqual(last);
+    expect(run(SECTIONS, last, "left", "left")).toEqual({ mode: "channel", row: 1, col: 0 });
+  });
+
+  it("steps channel numbers across sections, wrapping at the ends", () => {
+    expect(run(SECTIONS, { mode: "channel", row: 0, col: 1 }, "channelUp")).toEqual({ mode: "channel", row: 1, col: 0 });
+    expect(run(SECTIONS, home(1, 1), "channelUp")).toEqual(home(0, 0));
+    expect(reduce(SECTIONS, HOME_STATE, { type: "tune", channel: 202 })).toEqual({ mode: "channel", row: 1, col: 1 });
+    expect(reduce(SECTIONS, HOME_STATE, { type: "tune", channel: 999 })).toBe(HOME_STATE);
+  });
+
+  it("turns keys into the same commands the Remote sends", () => {
+    expect(commandFromKey("ArrowLeft", DEFAULT_BINDINGS)).toEqual({ type: "left" });
+    expect(commandFromKey(" ", DEFAULT_BINDINGS)).toEqual({ type: "ok" });
+    expect(commandFromKey("7", DEFAULT_BINDINGS)).toEqual({ type: "number", n: 7 });
+    expect(commandFromKey("q", DEFAULT_BINDINGS)).toBeNull();
+    const custom = rebind(DEFAULT_BINDINGS, "back", "Enter");
+    expect(commandFromKey("Enter", custom)).toEqual({ type: "back" });
+    expect(custom.ok).toEqual([" "]);
+  });
+
+  it("mirrors only left and right", () => {
+    expect(mirrorCommand({ type: "left" })).toEqual({ type: "right" });
+    expect(mirrorCommand({ type: "up" })).toEqual({ type: "up" });
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import TVPortfolio from "../components/TVPortfolio";
+import { buildShelves, type Shelf } from "../lib/personal/shelves";
+import { addRecent, loadPersonal, NO_HISTORY, RECENT_MAX, toggleFavorite } from "../lib/personal/storage";
+import { parsePath, pathFromState } from "../lib/routes";
+import type { Section, ViewState } from "../lib/types";
+import { key, runWith, SECTIONS } from "./fixtures";
+
+afterEach(() => localStorage.clear());
+
+// who-i-am and compiler share "rust"; skills and compiler share "go" too.
+const TAGGED: Section[] = [
+  { ...SECTIONS[0], items: [{ ...SECTIONS[0].items[0], tags: ["rust"] }, { ...SECTIONS[0].items[1], tags: ["Rust", "go"] }] },
+  { ...SECTIONS[1], items: [{ ...SECTIONS[1].items[0], tags: ["ts"] }, { ...SECTIONS[1].items[1], tags: ["rust", "go"] }] },
+];
+
+describe("personal rows", () => {
+  it("keeps recent views and My List in localStorage, ignoring junk", () => {
+    localStorage.setItem("tv-portfolio:personal", JSON.stringify({ recent: ["about/skills", "nope", 3, "about/skills"], favorites: "x" }));
+    expect(loadPersonal()).toEqual({ recent: ["about/skills"], favorites: [] });
+    localStorage.setItem("tv-portfolio:personal", "{");
+    expect(loadPersonal()).toEqual(NO_HISTORY);
+
+    let p = addRecent(addRecent(NO_HISTORY, "about/skills"), "projects/compiler");
+    expect(addRecent(p, "about/skills").recent).toEqual(["about/skills", "projects/compiler"]);
+    for (let i = 0; i < RECENT_MAX + 5; i++) p = addRecent(p, `projects/item-${i}`);
+    expect(p.recent).toHaveLength(RECENT_MAX);
+    expect(toggleFavorite(toggleFavorite(NO_HISTORY, "about/skills"), "about/skills")).toEqual(NO_HISTORY);
+  });
+
+  it("builds Continue Watching, My List and Because you viewed from the history", () => {
+    const shelves = buildShelves(TAGGED, { recent: ["about/who-i-am", "gone/item"], favorites: ["projects/compiler", "about/gone"] });
+    expect(shelves).toEqual([
+      { key: "continue", color: "rose", items: [{ row: 0, col: 0 }] },
+      { key: "my-list", color: "violet", items: [{ row: 1, col: 1 }] },
+      // Ties keep content order; tags match whatever their case.
+      { key: "because", color: "blue", seed: { row: 0, col: 0 }, items: [{ row: 0, col: 1 }, { row: 1, col: 1 }] },
+    ]);
+    expect(buildShelves(TAGGED, NO_HISTORY)).toEqual([]);
+    expect(buildShelves(SECTIONS, { recent: ["about/who-i-am"], favorites: [] }).map((s) => s.key)).toEqual(["continue"]);
+  });
+
+  it("puts shelves above the sections and returns to them from a channel", () => {
+    const shelves: Shelf[] = [{ key: "my-list", color: "violet", items: [{ row: 1, col: 1 }, { row: 0, col: 0 }] }];
+    const run = runWith(shelves);
+    const channel = run(SECTIONS, { mode: "home", focus: { row: 0, col: 1 } }, "ok");
+    expect(channel).toEqual({ mode: "channel", row: 0, col: 0, list: "my-list" });
+    // Surfing stays in the item's own section; Back finds it on the shelf.
+    expect(run(SECTIONS, channel, "ok", "back", "back")).toEqual({ mode: "home", focus: { row: 0, col: 1 } });
+    expect(run(SECTIONS, channel, "right", "back")).toEqual({ mode: "home", focus: { row: 0, col: 0 } });
+    // Everything else on the home screen is one row further down.
+    expect(run(SECTIONS, { mode: "channel", row: 1, col: 0 }, "back")).toEqual({ mode: "home", focus: { row: 2, col: 0 } });
+    expect(run(SECTIONS, { mode: "home", focus: { row: 0, col: 0 } }, "guide")).toEqual({ mode: "guide", focus: { row: 1, col: 1 } });
+    expect(run(SECTIONS, { mode: "home", focus: { row: 0, col: 0 } }, "down", "down", "down")).toEqual({ mode: "home", focus: { row: 2, col: 0 } });
+    expect(run(SECTIONS, { mode: "home", focus: { row: 0, col: 0 } }, "channelDown")).toEqual({ mode: "home", focus: { row: 2, col: 0 } });
+  });
+
+  it("keeps the shelf in the channel URL", () => {
+    const state: ViewState = { mode: "detail", row: 1, col: 0, list: "continue" };
+    expect(pathFromState(SECTIONS, state)).toBe("/projects/tv-portfolio/details?list=continue");
+    expect(parsePath(SECTIONS, "/projects/tv-portfolio/details", "?list=continue")).toEqual(state);
+    expect(parsePath(SECTIONS, "/projects/tv-portfolio", "?list=everything")).toEqual({ mode: "channel", row: 1, col: 0 });
+  });
+
+  it("keeps the home focus on the item as My List appears and disappears", async () => {
+    localStorage.setItem("tv-portfolio:personal", JSON.stringify({ recent: ["about/who-i-am"], favorites: [] }));
+    render(<TVPortfolio sections={SECTIONS} />);
+    const headers = async () => (await screen.findAllByRole("rowheader")).map((h) => h.textContent);
+    const focused = () => document.querySelector("[role=grid] button[tabindex='0']")?.getAttribute("aria-label");
+    expect(await headers()).toEqual(["Continue Watching", "About Me", "Projects"]);
+
+    // From a section row: the rows below Continue Watching shift, the focus stays on skills.
+    await key("ArrowDown");
+    await key("ArrowRight");
+    await key("f");
+    expect(await headers()).toEqual(["Continue Watching", "My List", "About Me", "Projects"]);
+    expect(focused()).toMatch(/^skills,.*My List$/);
+    await key("f");
+    expect(await headers()).toEqual(["Continue Watching", "About Me", "Projects"]);
+    expect(focused()).toMatch(/^skills,/);
+
+    // From My List itself: taking its last item away lands on the item in its own section.
+    await key("f");
+    await key("ArrowUp");
+    expect(focused()).toMatch(/^skills,.*My List$/);
+    await key("f");
+    expect(await headers()).toEqual(["Continue Watching", "About Me", "Projects"]);
+    expect(focused()).toMatch(/^skills, skills subtitle, channel 102$/i);
+    await key("f");
+    expect(focused()).toMatch(/My List$/);
+  });
+
+  it("adds opened channels and favourites to the home screen, until cleared", async () => {
+    render(<TVPortfolio sections={SECTIONS} />);
+    await key("ArrowRight");
+    await key("Enter");
+    await screen.findByRole("region", { name: "Channel 102" });
+    await key("f");
+    expect(screen.getByRole("button", { name: "My List" }).getAttribute("aria-pressed")).toBe("true");
+    expect(JSON.parse(localStorage.getItem("tv-portfolio:personal")!)).toEqual({ recent: ["about/skills"], favorites: ["about/skills"] });
+
+    await key("Escape");
+    const headers = async () => (await screen.findAllByRole("rowheader")).map((h) => h.textContent);
+    expect(await headers()).toEqual(["Continue Watching", "My List", "About Me", "Projects"]);
+    // Back returns to the row the channel was opened from, now below the shelves.
+    expect(document.querySelector("[role=grid] button[tabindex='0']")?.getAttribute("aria-label")).toMatch(/^skills,.*My List$/);
+
+    fireEvent.click(screen.getByRole("button", { name: "Settings" }));
+    fireEvent.click(await screen.findByRole("button", { name: "Clear Continue Watching and My List" }));
+    await key("Escape");
+    expect(await headers()).toEqual(["About Me", "Projects"]);
+  });
+});
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render } from "@testing-library/react";
+import ChannelView from "../components/ChannelView";
+import { contentVersion, precacheUrls, SHELL } from "../lib/pwa/precache";
+import { SECTIONS } from "./fixtures";
+
+afterEach(() => vi.restoreAllMocks());
+
+describe("offline", () => {
+  it("precaches the shell, every channel and detail page, and every image", () => {
+    const urls = precacheUrls(SECTIONS);
+    expect(urls).toEqual(expect.arrayContaining([...SHELL, "/about/skills", "/projects/compiler/details", "/compiler.jpg"]));
+    expect(new Set(urls).size).toBe(urls.length);
+  });
+
+  it("versions the worker by content", () => {
+    const renamed = [{ ...SECTIONS[0], label: "About" }, SECTIONS[1]];
+    expect(contentVersion(renamed)).not.toBe(contentVersion(SECTIONS));
+  });
+
+  it("shows No Signal instead of a broken image when offline", () => {
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    const { container, getByText } = render(
+      <ChannelView section={SECTIONS[0]} col={0} onExit={() => {}} onDetails={() => {}} setCol={() => {}} playerRef={{ current: null }} />,
+    );
+    fireEvent.error(container.querySelector("img")!);
+    expect(getByText("No Signal")).toBeTruthy();
+    expect(container.querySelector("[data-title-card]")).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { Pairing } from "../lib/remote/protocol";
+import { connect, createSession, endSession, hasSession, MAX_SESSIONS, SESSION_TTL, sweep } from "../lib/remote/sessions";
+
+const opened: Pairing[] = [];
+const open = () => {
+  const pairing = createSession();
+  if (pairing) opened.push(pairing);
+  return pairing;
+};
+
+afterEach(() => {
+  for (const { code, token } of opened.splice(0)) endSession(code, token);
+});
+
+describe("pairing sessions", () => {
+  it("attaches the TV only with its token", () => {
+    const { code, token } = open()!;
+    expect(connect(code, token.replace(/.$/, (c) => (c === "0" ? "1" : "0")), () => {})).toBeNull();
+    expect(connect(code, "short", () => {})).toBeNull();
+    expect(endSession(code, "wrong")).toBe(false);
+    const detachTv = connect(code, token, () => {});
+    const detachPhone = connect(code, null, () => {});
+    expect(detachTv).toBeTypeOf("function");
+    expect(detachPhone).toBeTypeOf("function");
+    detachTv!();
+    detachPhone!();
+  });
+
+  it("opens at most MAX_SESSIONS at once", () => {
+    while (open());
+    expect(opened.length).toBeGreaterThan(0);
+    expect(createSession()).toBeNull();
+    const { code, token } = opened.pop()!;
+    endSession(code, token);
+    expect(open()).not.toBeNull();
+    expect(opened.length).toBeLessThanOrEqual(MAX_SESSIONS);
+  });
+
+  it("sweeps sessions nobody has used for SESSION_TTL", () => {
+    const idle = open()!;
+    const watched = open()!;
+    const detach = connect(watched.code, watched.token, () => {});
+    sweep(Date.now() + SESSION_TTL + 1);
+    expect(hasSession(idle.code)).toBe(false);
+    expect(hasSession(watched.code)).toBe(true);
+    detach!();
+  });
+});
@@ -0,0 +1,114 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CONTENT_DIR, loadSectionsFrom } from "../lib/content/load";
+import { ContentError } from "../lib/content/schema";
+import { importResume } from "../lib/content/store";
+import { fromJsonResume, toJsonResume } from "../lib/resume/jsonResume";
+
+const RESUME = {
+  basics: {
+    name: "Ayaan",
+    label: "Software engineer",
+    summary: "Builds things.",
+    url: "https://ayaan.dev",
+    profiles: [{ network: "GitHub", url: "https://github.com/ayaan" }],
+  },
+  work: [
+    {
+      name: "Kaiser",
+      position: "AI/ML SWE Intern",
+      startDate: "2024-06-17",
+      endDate: "2024",
+      summary: "Parsed prescriptions.",
+      highlights: ["Shipped the SIG parser", "Cut errors by 40%"],
+    },
+    { name: "Acme Corp", position: "Engineer", startDate: "2025-01" },
+  ],
+  projects: [{ name: "Ray Tracer", description: "In Rust.", keywords: ["rust", "graphics"], url: "https://github.com/ayaan/rt" }],
+  interests: [{ name: "Chess", keywords: ["openings"] }],
+};
+
+let tmp: string;
+let root: string;
+
+beforeEach(async () => {
+  tmp = await fs.mkdtemp(path.join(os.tmpdir(), "resume-"));
+  root = path.join(tmp, "sections");
+  await fs.cp(CONTENT_DIR, root, { recursive: true });
+});
+
+afterEach(() => fs.rm(tmp, { recursive: true, force: true }));
+
+describe("JSON Resume", () => {
+  it("maps each part of the résumé to its section", () => {
+    const [about, experience, projects, hobbies] = fromJsonResume(RESUME);
+    expect(about).toMatchObject({ key: "about", items: [{ id: "intro", title: "Ayaan", subtitle: "Software engineer", description: "Builds things." }] });
+    expect(about.items[0].links).toEqual([
+      { type: "site", url: "https://ayaan.dev" },
+      { type: "repo", url: "https://github.com/ayaan", label: "GitHub" },
+    ]);
+    expect(experience.key).toBe("experience");
+    expect(experience.items[0]).toEqual({
+      id: "kaiser",
+      title: "AI/ML SWE Intern – Kaiser",
+      description: "Parsed prescriptions.",
+      start: "2024-06-17",
+      end: "2024-12",
+      body: "- Shipped the SIG parser\n- Cut errors by 40%",
+    });
+    expect(experience.items[1].id).toBe("acme-corp");
+    expect(projects.items[0]).toMatchObject({ id: "ray-tracer", tags: ["rust", "graphics"], links: [{ type: "repo", url: "https://github.com/ayaan/rt" }] });
+    expect(hobbies).toMatchObject({ key: "hobbies", items: [{ id: "chess", title: "Chess", tags: ["openings"] }] });
+  });
+
+  it("numbers clashing ids after the id itself", () => {
+    const [experience] = fromJsonResume({ work: ["web-2024", "web-2024", "web-2024"].map((id) => ({ id, name: "Studio" })) });
+    expect(experience.items.map((i) => i.id)).toEqual(["web-2024", "web-2024-2", "web-2024-3"]);
+  });
+
+  it("lists every malformed entry", () => {
+    const error = (() => {
+      try {
+        fromJsonResume({ basics: "me", work: [{ summary: "no name" }, 3], projects: {} });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(ContentError);
+    expect((error as ContentError).issues).toEqual(['"basics" must be an object', "work[1]: must be an object", "work[0]: needs a name", '"projects" must be a list']);
+  });
+
+  it("exports the content and imports it back unchanged", async () => {
+    const before = await loadSectionsFrom(root);
+    const exported = toJsonResume(before, "Ayaan");
+    expect(exported.basics).toMatchObject({ id: "intro", name: "Ayaan", label: before[0].items[0].subtitle });
+    expect(exported.work?.[0]).toMatchObject({ id: "kaiser", name: "Kaiser", position: "AI/ML SWE Intern" });
+    expect(await importResume(exported, root)).toEqual({ added: 0, updated: 8 });
+    expect(await loadSectionsFrom(root)).toEqual(before);
+  });
+
+  it("updates matching items, adds new ones and keeps the rest", async () => {
+    const [before] = (await loadSectionsFrom(root))[0].items;
+    expect(await importResume({ ...RESUME, basics: { ...RESUME.basics, image: "https://example.com/me.jpg" } }, root)).toEqual({ added: 3, updated: 2 });
+    const sections = await loadSectionsFrom(root);
+    const [about, experience, , hobbies] = sections;
+    // basics fill in the first About item but keep its title and translations.
+    expect(about.items[0]).toMatchObject({ id: "intro", title: "Who I Am", subtitle: "Software engineer" });
+    expect(about.items[0].translations?.es?.title).toBe("Quién soy");
+    expect(about.items[0].image).toBe(before.image);
+    expect(about.items[1].id).toBe("strengths");
+    // Matched by title; items the résumé doesn't mention stay, after it.
+    expect(experience.items.map((i) => i.id)).toEqual(["kaiser", "acme-corp", "medusa"]);
+    expect(experience.items[0]).toMatchObject({ start: "2024-06-17", body: "- Shipped the SIG parser\n- Cut errors by 40%" });
+    expect(experience.items[0].image).toBeTruthy();
+    expect(hobbies.items.map((i) => i.id)).toEqual(["chess", "soccer-analytics", "reading"]);
+  });
+
+  it("refuses a résumé that wouldn't load, leaving the content alone", async () => {
+    const before = await loadSectionsFrom(root);
+    await expect(importResume({ work: [{ name: "Kaiser", startDate: "2024-13" }] }, root)).rejects.toBeInstanceOf(ContentError);
+    expect(await loadSectionsFrom(root)).toEqual(before);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { guideState, HOME_STATE, parseHash, parsePath, pathFromState, searchState, SETTINGS_STATE } from "../lib/routes";
+import type { ViewState } from "../lib/types";
+import { SECTIONS } from "./fixtures";
+
+const everyItem = SECTIONS.flatMap((s, row) => s.items.map((item, col) => ({ key: s.key, id: item.id, row, col })));
+
+describe("routes", () => {
+  it("round-trips every screen through its path", () => {
+    const states: ViewState[] = [
+      HOME_STATE,
+      guideState(SECTIONS),
+      SETTINGS_STATE,
+      searchState(),
+      searchState("rust & go"),
+      ...everyItem.flatMap(({ row, col }): ViewState[] => [{ mode: "channel", row, col }, { mode: "detail", row, col }]),
+    ];
+    for (const state of states) {
+      const [pathname, search = ""] = pathFromState(SECTIONS, state).split("?");
+      expect(parsePath(SECTIONS, pathname, search && `?${search}`)).toEqual(state);
+    }
+  });
+
+  it("names channels by section key and item id", () => {
+    expect(pathFromState(SECTIONS, { mode: "channel", row: 1, col: 1 })).toBe("/projects/compiler");
+    expect(pathFromState(SECTIONS, { mode: "detail", row: 0, col: 1 })).toBe("/about/skills/details");
+    expect(pathFromState(SECTIONS, searchState("a b"))).toBe("/search?q=a+b");
+  });
+
+  it("rejects paths that name nothing", () => {
+    for (const path of ["/nope/who-i-am", "/about/nope", "/about", "/about/skills/extra", "/about/skills/details/more"]) {
+      expect(parsePath(SECTIONS, path)).toBeNull();
+    }
+  });
+
+  it("understands every legacy #key=id link", () => {
+    for (const { key, id, row, col } of everyItem) {
+      expect(parseHash(SECTIONS, `#${key}=${id}`)).toEqual({ mode: "channel", row, col });
+    }
+    expect(parseHash(SECTIONS, "")).toEqual(HOME_STATE);
+    expect(parseHash(SECTIONS, "#home")).toEqual(HOME_STATE);
+    expect(parseHash(SECTIONS, "#guide")).toEqual(guideState(SECTIONS));
+  });
+
+  it("ignores invalid hashes", () => {
+    for (const hash of ["#about", "#about=", "#=skills", "#about=nope", "#nope=skills", "#about=skills=x", "#%%%"]) {
+      expect(parseHash(SECTIONS, hash)).toBeNull();
+    }
+  });
+});
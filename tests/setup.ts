@@ -0,0 +1,17 @@
+import { afterEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+
+// jsdom has no layout or media; the views only need these to exist.
+window.matchMedia ??= (query: string) =>
+  ({ matches: false, media: query, addEventListener() {}, removeEventListener() {} }) as unknown as MediaQueryList;
+Element.prototype.scrollIntoView ??= function () {};
+Element.prototype.scrollBy ??= function () {};
+Element.prototype.scrollTo ??= function () {};
+HTMLMediaElement.prototype.play = () => Promise.resolve();
+HTMLMediaElement.prototype.pause = () => {};
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  history.replaceState(null, "", "/");
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import TVPortfolio from "../components/TVPortfolio";
+import { BENCH_SIZE, FRAME_MS, frameStats, heldSixty, syntheticCatalog } from "../lib/bench";
+import { checkSections } from "../lib/content/schema";
+import { repeatCommand, repeatSteps } from "../lib/input/repeat";
+import type { Command } from "../lib/navigation";
+import { centredOffset, nearestOffset, visibleRange } from "../lib/windowing";
+import { key } from "./fixtures";
+
+describe("windowing", () => {
+  it("works out the visible range from the offset alone", () => {
+    // 100px items, a 250px viewport scrolled to 420: items 4–6, plus one either side.
+    expect(visibleRange(420, 250, 100, 1000, 1)).toEqual([3, 8]);
+    expect(visibleRange(0, 250, 100, 1000, 2)).toEqual([0, 5]);
+    expect(visibleRange(0, 250, 100, 2, 2)).toEqual([0, 2]);
+    expect(visibleRange(99_800, 250, 100, 1000, 1)).toEqual([997, 1000]);
+  });
+
+  it("centres a tile within the rail and scrolls rows the least needed", () => {
+    expect(centredOffset(0, 100, 80, 300, 1000)).toBe(0);
+    expect(centredOffset(5, 100, 80, 300, 1000)).toBe(390);
+    expect(centredOffset(9, 100, 80, 300, 1000)).toBe(700);
+    expect(nearestOffset(100, 200, 150, 300)).toBe(100);
+    expect(nearestOffset(500, 600, 150, 300)).toBe(300);
+    expect(nearestOffset(200, 300, 150, 300)).toBe(150);
+  });
+
+  it("moves further per repeat the longer an arrow is held", () => {
+    expect([0, 899, 900, 1800, 3000, 60_000].map(repeatSteps)).toEqual([1, 1, 2, 4, 8, 8]);
+    const sent: Command[] = [];
+    repeatCommand({ type: "right" }, 2000, (cmd) => sent.push(cmd));
+    repeatCommand({ type: "ok" }, 2000, (cmd) => sent.push(cmd));
+    expect(sent.map((c) => c.type)).toEqual(["right", "right", "right", "right", "ok"]);
+  });
+
+  it("summarises frame times", () => {
+    const smooth = frameStats(Array(100).fill(FRAME_MS));
+    expect(smooth.fps).toBeCloseTo(60);
+    expect(heldSixty(smooth)).toBe(true);
+    const janky = frameStats([...Array(90).fill(FRAME_MS), ...Array(10).fill(50)]);
+    expect(janky).toMatchObject({ frames: 100, worst: 50, dropped: 10 });
+    expect(janky.p95).toBe(50);
+    expect(heldSixty(janky)).toBe(false);
+    expect(heldSixty(frameStats([]))).toBe(false);
+  });
+
+  it("makes a 50×200 benchmark catalog with unique ids and channels", () => {
+    expect(BENCH_SIZE).toEqual({ rows: 50, cols: 200 });
+    const sections = syntheticCatalog();
+    const issues: string[] = [];
+    checkSections(sections, issues);
+    expect(issues).toEqual([]);
+    const channels = sections.flatMap((s) => s.items.map((i) => i.channel));
+    expect(channels).toHaveLength(10_000);
+    expect(new Set(channels).size).toBe(10_000);
+  });
+
+  it("mounts a screenful of a 10,000 item catalog and keeps the focused tile", async () => {
+    const saved = JSON.stringify({ recent: ["about/intro"], favorites: ["about/intro"] });
+    localStorage.setItem("tv-portfolio:personal", saved);
+    render(<TVPortfolio sections={syntheticCatalog()} sandbox />);
+    const cells = () => document.querySelectorAll("[role=gridcell]").length;
+    const focused = () => document.querySelector("[role=grid] button[tabindex='0']")?.getAttribute("aria-label");
+    expect(cells()).toBeGreaterThan(0);
+    expect(cells()).toBeLessThan(60);
+
+    for (let i = 0; i < 20; i++) await key("ArrowDown");
+    // Taps, not a hold, so the count doesn't depend on how fast the test runs.
+    for (let i = 0; i < 30; i++) await key("ArrowRight");
+    expect(focused()).toMatch(/^Item 21\.31,/);
+    expect(cells()).toBeLessThan(60);
+    // The sandbox leaves the page's URL alone.
+    expect(window.location.pathname).toBe("/");
+
+    // A click opens the tile in its own row.
+    fireEvent.click(document.querySelector("[aria-rowindex='21'] [aria-colindex='2'] button")!);
+    expect(await screen.findByRole("region", { name: "Channel 4002" })).toBeTruthy();
+    // …and, in the sandbox, neither reads nor rewrites the visitor's own history.
+    await key("f");
+    expect(screen.getByRole("button", { name: "My List" }).getAttribute("aria-pressed")).toBe("true");
+    expect(localStorage.getItem("tv-portfolio:personal")).toBe(saved);
+  });
+});